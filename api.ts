@@ -0,0 +1,188 @@
+import LifeDomainTrackerPlugin, {
+  DomainLogEntry,
+  LOGS_CHANGED_EVENT,
+  LifeDomain,
+  LifeDomainState,
+  dateFromKey,
+  getCurrentDateKey,
+  getTodayKey
+} from "./main";
+import { aggregateFromIndex, buildDomainAggregateIndex } from "./view";
+
+export interface LifeDomainInfo {
+  id: string;
+  name: string;
+  aggregationType: LifeDomain["aggregationType"];
+  states: { id: string; name: string; score: number; kind: NonNullable<LifeDomainState["kind"]>; unit: string | null }[];
+}
+
+export interface LifeDomainLogRecord {
+  id: string;
+  domainId: string;
+  domainName: string;
+  stateId: string;
+  stateName: string | null;
+  score: number;
+  /** Day key the entry is filed under, `YYYY-MM-DD`. */
+  date: string;
+  /** Milliseconds since the epoch. */
+  timestamp: number;
+  /** ISO 8601 form of `timestamp`. */
+  time: string;
+  /** End of a duration session in milliseconds since the epoch, null for point entries. */
+  endTimestamp: number | null;
+  note: string | null;
+  /** Value of a measured state, in `unit`. */
+  value: number | null;
+  unit: string | null;
+}
+
+export interface LifeDomainLogQuery {
+  /** Inclusive start day, `YYYY-MM-DD`. */
+  from?: string;
+  /** Inclusive end day, `YYYY-MM-DD`. */
+  to?: string;
+  domain?: string;
+  state?: string;
+}
+
+export interface LifeDomainDailyPoint {
+  date: string;
+  value: number;
+  count: number;
+}
+
+/**
+ * Public API for scripts and other plugins, reachable as
+ * `app.plugins.plugins["life-domain-tracker"].api`.
+ *
+ * Everything returned is a plain copy: mutating it never touches stored data.
+ * Domains and states can be referenced by id or by (case-insensitive) name.
+ */
+export class LifeDomainTrackerApi {
+  /** Bumped only on breaking changes to this API. */
+  readonly version = 1;
+  private plugin: LifeDomainTrackerPlugin;
+
+  constructor(plugin: LifeDomainTrackerPlugin) {
+    this.plugin = plugin;
+  }
+
+  listDomains(): LifeDomainInfo[] {
+    return this.plugin.settings.domains.map((domain) => ({
+      id: domain.id,
+      name: domain.name,
+      aggregationType: domain.aggregationType,
+      states: domain.states.map((s) => ({
+        id: s.id,
+        name: s.name,
+        score: s.score,
+        kind: s.kind ?? "label",
+        unit: s.unit ?? null
+      }))
+    }));
+  }
+
+  /**
+   * Adds a log and resolves with the stored record, or null when the domain or state is unknown.
+   * Measured states need `options.value`; their score is derived from it.
+   */
+  async addLog(
+    domainRef: string,
+    stateRef: string,
+    options: { note?: string; timestamp?: number | string | Date; value?: number } = {}
+  ): Promise<LifeDomainLogRecord | null> {
+    const domain = this.findDomain(domainRef);
+    const state = domain && findByRef(domain.states, stateRef);
+    if (!domain || !state) return null;
+    const ts = options.timestamp === undefined ? undefined : new Date(options.timestamp).getTime();
+    if (ts !== undefined && Number.isNaN(ts)) return null;
+
+    const entry = this.plugin.addLog(domain.id, state.id, options.note, ts, options.value);
+    const found = entry && this.plugin.findLog(entry.id);
+    return found ? this.toRecord(domain, found.dateKey, found.entry) : null;
+  }
+
+  /** Returns matching logs sorted by timestamp. */
+  queryLogs(query: LifeDomainLogQuery = {}): LifeDomainLogRecord[] {
+    const domains = query.domain ? [this.findDomain(query.domain)] : this.plugin.settings.domains;
+    const records: LifeDomainLogRecord[] = [];
+    for (const domain of domains) {
+      if (!domain) continue;
+      const state = query.state ? findByRef(domain.states, query.state) : undefined;
+      if (query.state && !state) continue;
+      for (const dateKey of Object.keys(this.plugin.dataStore.logs)) {
+        if (query.from && dateKey < query.from) continue;
+        if (query.to && dateKey > query.to) continue;
+        for (const entry of this.plugin.getLogsForDate(dateKey, domain.id)) {
+          if (state && entry.stateId !== state.id) continue;
+          records.push(this.toRecord(domain, dateKey, entry));
+        }
+      }
+    }
+    return records.sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  /**
+   * Returns one point per day between `from` and `to` (defaults: first log, today),
+   * aggregated exactly like the performance view. Days without logs have value 0.
+   */
+  getDailySeries(
+    domainRef: string,
+    options: { from?: string; to?: string; aggregation?: LifeDomain["aggregationType"] } = {}
+  ): LifeDomainDailyPoint[] {
+    const domain = this.findDomain(domainRef);
+    if (!domain) return [];
+    const index = buildDomainAggregateIndex(this.plugin);
+    const dates = Object.keys(this.plugin.dataStore.logs).sort();
+    const from = options.from ?? dates[0];
+    const to = options.to ?? getCurrentDateKey(this.plugin.settings);
+    if (!from || from > to) return [];
+
+    const points: LifeDomainDailyPoint[] = [];
+    const cursor = dateFromKey(from);
+    for (let key = getTodayKey(cursor); key <= to; key = getTodayKey(cursor)) {
+      points.push({
+        date: key,
+        value: aggregateFromIndex(index, key, domain.id, options.aggregation ?? domain.aggregationType),
+        count: index.get(key)?.get(domain.id)?.count ?? 0
+      });
+      cursor.setDate(cursor.getDate() + 1);
+    }
+    return points;
+  }
+
+  /** Calls `callback` after any log is added, edited, moved or deleted. Returns an unsubscribe function. */
+  onLogsChanged(callback: () => void): () => void {
+    const ref = this.plugin.events.on(LOGS_CHANGED_EVENT, callback);
+    return () => this.plugin.events.offref(ref);
+  }
+
+  private findDomain(ref: string): LifeDomain | undefined {
+    return findByRef(this.plugin.settings.domains, ref);
+  }
+
+  private toRecord(domain: LifeDomain, dateKey: string, entry: DomainLogEntry): LifeDomainLogRecord {
+    const state = domain.states.find((s) => s.id === entry.stateId);
+    return {
+      id: entry.id,
+      domainId: domain.id,
+      domainName: domain.name,
+      stateId: entry.stateId,
+      stateName: state?.name ?? null,
+      score: entry.score,
+      date: dateKey,
+      timestamp: entry.ts,
+      time: new Date(entry.ts).toISOString(),
+      endTimestamp: entry.endTs ?? null,
+      note: entry.note ?? null,
+      value: entry.value ?? null,
+      unit: state?.unit ?? null
+    };
+  }
+}
+
+function findByRef<T extends { id: string; name: string }>(items: T[], ref: string): T | undefined {
+  const key = ref.trim().toLowerCase();
+  return items.find((i) => i.id === ref) ?? items.find((i) => i.name.trim().toLowerCase() === key);
+}
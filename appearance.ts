@@ -0,0 +1,89 @@
+import { setIcon } from "obsidian";
+import { LifeDomain, LifeDomainState } from "./main";
+
+const PALETTE = [
+  "#2a9d8f",
+  "#e76f51",
+  "#457b9d",
+  "#f4a261",
+  "#264653",
+  "#e9c46a",
+  "#8d99ae",
+  "#ef476f"
+];
+
+export function colorForIndex(idx: number): string {
+  return PALETTE[idx % PALETTE.length];
+}
+
+/** A palette colour derived from an id, so it stays the same when items are filtered or reordered. */
+export function colorForId(id: string): string {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  return colorForIndex(Math.abs(hash));
+}
+
+/** A palette colour no state in the domain uses yet, for storing on a new state. */
+export function nextStateColor(domain: LifeDomain): string {
+  const used = new Set(domain.states.map((s) => getStateColor(s)));
+  return PALETTE.find((color) => !used.has(color)) ?? colorForIndex(domain.states.length);
+}
+
+/** A state's own colour, or one derived from its id. */
+export function getStateColor(state: LifeDomainState): string {
+  return state.color || colorForId(state.id);
+}
+
+export function getDomainColor(domains: LifeDomain[], domain: LifeDomain): string {
+  return domain.color || colorForIndex(Math.max(0, domains.indexOf(domain)));
+}
+
+/** Renders an icon (when set), a colour dot and the name. */
+export function renderItemLabel(
+  container: HTMLElement,
+  item: { name: string; icon?: string; color?: string },
+  color: string,
+  fallbackName: string
+): HTMLElement {
+  const label = container.createSpan({ cls: "life-domain-item-label" });
+  if (item.icon) {
+    const icon = label.createSpan({ cls: "life-domain-item-icon" });
+    icon.style.color = color;
+    setIcon(icon, item.icon);
+  } else {
+    label.createSpan({ cls: "life-domain-item-dot" }).style.backgroundColor = color;
+  }
+  label.createSpan({ text: item.name || fallbackName });
+  return label;
+}
+
+/** Splits a comma or space separated tag list, dropping leading `#` and duplicates. */
+export function parseTags(text: string): string[] {
+  const tags = text
+    .split(/[\s,]+/)
+    .map((t) => t.replace(/^#+/, "").trim().toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(tags));
+}
+
+export function hasTag(item: { tags?: string[] }, tag: string): boolean {
+  return (item.tags ?? []).includes(tag);
+}
+
+/** Every tag used on a domain or state, sorted. */
+export function collectTags(domains: LifeDomain[]): string[] {
+  const tags = new Set<string>();
+  for (const domain of domains) {
+    for (const tag of domain.tags ?? []) tags.add(tag);
+    for (const state of domain.states) {
+      for (const tag of state.tags ?? []) tags.add(tag);
+    }
+  }
+  return Array.from(tags).sort();
+}
+
+export function renderTagBadges(container: HTMLElement, tags: string[] | undefined) {
+  for (const tag of tags ?? []) {
+    container.createEl("span", { text: `#${tag}`, cls: "life-domain-badge life-domain-tag" });
+  }
+}
@@ -0,0 +1,241 @@
+import { normalizePath } from "obsidian";
+import LifeDomainTrackerPlugin, {
+  DomainLogEntry,
+  LifeDomainDataStore,
+  LifeDomainSettings,
+  LifeDomainStorage
+} from "./main";
+import { SCHEMA_VERSION, detectSchemaVersion, migrateStorage } from "./migrations";
+
+export const BACKUP_TYPE = "life-domain-tracker-backup";
+export const BACKUP_VERSION = 2;
+const BACKUP_PREFIX = "life-domain-tracker-backup-";
+const AUTO_BACKUP_PREFIX = `${BACKUP_PREFIX}auto-`;
+
+type BackupLogEntry = DomainLogEntry & { time: string };
+
+export interface LifeDomainBackup {
+  type: typeof BACKUP_TYPE;
+  version: number;
+  createdAt: string;
+  /** Schema of `settings` and `data`, so restores run through the migrations. Missing before backup version 2. */
+  schemaVersion?: number;
+  settings: LifeDomainSettings;
+  /** The whole data store; before backup version 2 only `logs` was saved. */
+  data: Omit<LifeDomainDataStore, "logs"> & { logs: Record<string, Record<string, BackupLogEntry[]>> };
+}
+
+export type RestoreMode = "replace" | "merge";
+
+export interface RestoreSummary {
+  domainsAdded: number;
+  domainsRemoved: number;
+  domainsUpdated: number;
+  statesAdded: number;
+  logsAdded: number;
+  logsRemoved: number;
+}
+
+export function createBackup(storage: LifeDomainStorage): LifeDomainBackup {
+  const logs: LifeDomainBackup["data"]["logs"] = {};
+  for (const [dateKey, domains] of Object.entries(storage.data.logs)) {
+    logs[dateKey] = {};
+    for (const [domainId, entries] of Object.entries(domains)) {
+      logs[dateKey][domainId] = entries.map((entry) => ({ ...entry, time: new Date(entry.ts).toISOString() }));
+    }
+  }
+  const { logs: _logs, ...rest } = storage.data;
+  return {
+    type: BACKUP_TYPE,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    schemaVersion: SCHEMA_VERSION,
+    settings: JSON.parse(JSON.stringify(storage.settings)),
+    data: { ...JSON.parse(JSON.stringify(rest)), logs }
+  };
+}
+
+/**
+ * Parses a backup file back into storage, migrated to the current schema, or throws with a
+ * message suitable for a notice.
+ */
+export function parseBackup(text: string): LifeDomainStorage {
+  let raw: Partial<LifeDomainBackup>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("Backup file is not valid JSON.");
+  }
+  if (!raw || raw.type !== BACKUP_TYPE) throw new Error("File is not a Life Domain Tracker backup.");
+  if ((raw.version ?? 0) > BACKUP_VERSION) {
+    throw new Error("Backup was created by a newer version of the plugin.");
+  }
+  if (!raw.settings || !Array.isArray(raw.settings.domains) || !raw.data || typeof raw.data.logs !== "object") {
+    throw new Error("Backup file is missing settings or logs.");
+  }
+
+  const { logs: backupLogs, ...rest } = raw.data;
+  const logs: LifeDomainDataStore["logs"] = {};
+  for (const [dateKey, domains] of Object.entries(backupLogs)) {
+    logs[dateKey] = {};
+    for (const [domainId, entries] of Object.entries(domains)) {
+      logs[dateKey][domainId] = entries.map(({ time, ...entry }) => ({
+        ...entry,
+        ts: Number.isFinite(entry.ts) ? entry.ts : Date.parse(time)
+      }));
+    }
+  }
+  // Without a schema version the shape is detected, as for an unversioned data.json.
+  const stored: Record<string, unknown> = { settings: raw.settings, data: { ...rest, logs } };
+  if (raw.schemaVersion !== undefined) stored.schemaVersion = raw.schemaVersion;
+  if (detectSchemaVersion(stored) > SCHEMA_VERSION) {
+    throw new Error("Backup was created by a newer version of the plugin.");
+  }
+  return migrateStorage(stored).storage;
+}
+
+export function planRestore(
+  current: LifeDomainStorage,
+  backup: LifeDomainStorage,
+  mode: RestoreMode
+): { result: LifeDomainStorage; summary: RestoreSummary } {
+  const summary: RestoreSummary = {
+    domainsAdded: 0,
+    domainsRemoved: 0,
+    domainsUpdated: 0,
+    statesAdded: 0,
+    logsAdded: 0,
+    logsRemoved: 0
+  };
+  const currentDomains = new Map(current.settings.domains.map((d) => [d.id, d] as const));
+  const backupDomains = new Map(backup.settings.domains.map((d) => [d.id, d] as const));
+  const currentKeys = collectLogKeys(current.data);
+  const backupKeys = collectLogKeys(backup.data);
+
+  if (mode === "replace") {
+    for (const domain of backup.settings.domains) {
+      const existing = currentDomains.get(domain.id);
+      if (!existing) summary.domainsAdded++;
+      else if (JSON.stringify(existing) !== JSON.stringify(domain)) summary.domainsUpdated++;
+    }
+    for (const id of currentDomains.keys()) {
+      if (!backupDomains.has(id)) summary.domainsRemoved++;
+    }
+    summary.logsAdded = countMissingLogs(backup.data, currentKeys);
+    summary.logsRemoved = countMissingLogs(current.data, backupKeys);
+    return { result: JSON.parse(JSON.stringify(backup)), summary };
+  }
+
+  const result: LifeDomainStorage = JSON.parse(JSON.stringify(current));
+  for (const domain of backup.settings.domains) {
+    const existing = result.settings.domains.find((d) => d.id === domain.id);
+    if (!existing) {
+      result.settings.domains.push(JSON.parse(JSON.stringify(domain)));
+      summary.domainsAdded++;
+      continue;
+    }
+    let added = 0;
+    for (const state of domain.states) {
+      if (existing.states.some((s) => s.id === state.id)) continue;
+      existing.states.push({ ...state });
+      added++;
+    }
+    summary.statesAdded += added;
+    if (added) summary.domainsUpdated++;
+  }
+
+  for (const [dateKey, domains] of Object.entries(backup.data.logs)) {
+    for (const [domainId, entries] of Object.entries(domains)) {
+      for (const entry of entries) {
+        if (hasLog(currentKeys, dateKey, domainId, entry)) continue;
+        if (!result.data.logs[dateKey]) result.data.logs[dateKey] = {};
+        if (!result.data.logs[dateKey][domainId]) result.data.logs[dateKey][domainId] = [];
+        result.data.logs[dateKey][domainId].push({ ...entry });
+        summary.logsAdded++;
+      }
+      result.data.logs[dateKey]?.[domainId]?.sort((a, b) => a.ts - b.ts);
+    }
+  }
+  return { result, summary };
+}
+
+export function describeRestoreSummary(summary: RestoreSummary): string[] {
+  return [
+    `Domains added: ${summary.domainsAdded}`,
+    `Domains updated: ${summary.domainsUpdated}`,
+    `Domains removed: ${summary.domainsRemoved}`,
+    `States added: ${summary.statesAdded}`,
+    `Logs added: ${summary.logsAdded}`,
+    `Logs removed: ${summary.logsRemoved}`
+  ];
+}
+
+export async function writeBackup(plugin: LifeDomainTrackerPlugin, auto: boolean): Promise<string> {
+  const folder = normalizePath(plugin.settings.backupFolder || "life-domain-tracker-backups");
+  const adapter = plugin.app.vault.adapter;
+  if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+
+  const prefix = auto ? AUTO_BACKUP_PREFIX : BACKUP_PREFIX;
+  const filePath = normalizePath(`${folder}/${prefix}${formatStamp(new Date())}.json`);
+  const backup = createBackup({ settings: plugin.settings, data: plugin.dataStore });
+  await adapter.write(filePath, JSON.stringify(backup, null, 2));
+
+  if (auto) await pruneAutoBackups(plugin, folder);
+  return filePath;
+}
+
+async function pruneAutoBackups(plugin: LifeDomainTrackerPlugin, folder: string) {
+  const keep = Math.max(1, plugin.settings.backupRetention);
+  const adapter = plugin.app.vault.adapter;
+  const listing = await adapter.list(folder);
+  // Timestamps in file names sort chronologically, so the oldest copies come first.
+  const backups = listing.files
+    .filter((path) => path.split("/").pop()?.startsWith(AUTO_BACKUP_PREFIX))
+    .sort();
+  for (const path of backups.slice(0, Math.max(0, backups.length - keep))) {
+    await adapter.remove(path);
+  }
+}
+
+function collectLogKeys(data: LifeDomainDataStore): Set<string> {
+  const keys = new Set<string>();
+  for (const [dateKey, domains] of Object.entries(data.logs)) {
+    for (const [domainId, entries] of Object.entries(domains)) {
+      for (const entry of entries) for (const key of logKeys(dateKey, domainId, entry)) keys.add(key);
+    }
+  }
+  return keys;
+}
+
+function countMissingLogs(data: LifeDomainDataStore, keys: Set<string>): number {
+  let missing = 0;
+  for (const [dateKey, domains] of Object.entries(data.logs)) {
+    for (const [domainId, entries] of Object.entries(domains)) {
+      for (const entry of entries) if (!hasLog(keys, dateKey, domainId, entry)) missing++;
+    }
+  }
+  return missing;
+}
+
+function hasLog(keys: Set<string>, dateKey: string, domainId: string, entry: DomainLogEntry): boolean {
+  return logKeys(dateKey, domainId, entry).some((key) => keys.has(key));
+}
+
+/**
+ * An entry matches on its id or on its content. Entries from before ids existed get random
+ * ids when migrated, on this device and again when their backup is read, so only the content
+ * can match them.
+ */
+function logKeys(dateKey: string, domainId: string, entry: DomainLogEntry): string[] {
+  return [`id:${entry.id}`, `${dateKey}|${domainId}|${entry.stateId}|${entry.ts}`];
+}
+
+function formatStamp(date: Date): string {
+  const pad = (v: number) => v.toString().padStart(2, "0");
+  // Milliseconds too, so two backups in the same second do not overwrite each other.
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}.` +
+    date.getMilliseconds().toString().padStart(3, "0")
+  );
+}
@@ -0,0 +1,257 @@
+import { MarkdownRenderChild } from "obsidian";
+import { Chart } from "chart.js/auto";
+import LifeDomainTrackerPlugin, { LOGS_CHANGED_EVENT } from "./main";
+import { MAX_CORRELATION_LAG, renderCorrelation } from "./correlation";
+import {
+  AGGREGATION_KEYS,
+  AggregationKey,
+  BUCKET_METRIC_KEYS,
+  BucketMetricKey,
+  ChartOptions,
+  RANGE_KEYS,
+  RangeKey,
+  RESOLUTION_KEYS,
+  ResolutionKey,
+  STATE_METRIC_KEYS,
+  StateMetricKey,
+  VIEW_KEYS,
+  ViewKey,
+  buildChartData,
+  createLineChart,
+  renderCalendarHeatmap,
+  renderStateHeatmap
+} from "./view";
+
+export const CODE_BLOCK_LANGUAGE = "life-domain";
+
+const OPTION_KEYS = [
+  "domain",
+  "view",
+  "range",
+  "from",
+  "to",
+  "year",
+  "aggregation",
+  "metric",
+  "resolution",
+  "bucket",
+  "lag",
+  "tag",
+  "smoothing",
+  "states"
+];
+// Options that take a list; every other option takes one value.
+const LIST_OPTION_KEYS = ["states"];
+
+/**
+ * Renders a ```life-domain``` block. Options are `key: value` pairs separated by
+ * commas or new lines, e.g. `domain: Sleep, view: calendar-heatmap, range: 90d`. Values with
+ * commas or colons go in double quotes, e.g. `domain: "Work, career"`. The block redraws when logs change.
+ */
+export class DomainChartBlock extends MarkdownRenderChild {
+  plugin: LifeDomainTrackerPlugin;
+  source: string;
+  chart: Chart | null = null;
+
+  constructor(containerEl: HTMLElement, plugin: LifeDomainTrackerPlugin, source: string) {
+    super(containerEl);
+    this.plugin = plugin;
+    this.source = source;
+  }
+
+  onload() {
+    this.render();
+    this.registerEvent(this.plugin.events.on(LOGS_CHANGED_EVENT, () => this.render()));
+  }
+
+  onunload() {
+    this.destroyChart();
+  }
+
+  private destroyChart() {
+    if (this.chart) {
+      this.chart.destroy();
+      this.chart = null;
+    }
+  }
+
+  private render() {
+    const { containerEl } = this;
+    this.destroyChart();
+    containerEl.empty();
+    containerEl.addClass("life-domain-embed");
+
+    const parsed = parseBlockOptions(this.plugin, this.source);
+    if (typeof parsed === "string") {
+      containerEl.createEl("p", { text: parsed, cls: "life-domain-embed-error" });
+      return;
+    }
+
+    if (parsed.viewKey === "calendar-heatmap" || parsed.viewKey === "composite-heatmap") {
+      renderCalendarHeatmap(this.plugin, containerEl, parsed);
+      return;
+    }
+    if (parsed.viewKey === "state-heatmap") {
+      renderStateHeatmap(this.plugin, containerEl, parsed);
+      return;
+    }
+    if (parsed.viewKey === "correlation") {
+      renderCorrelation(this.plugin, containerEl, parsed);
+      return;
+    }
+
+    const chartData = buildChartData(this.plugin, parsed);
+    if (!chartData.labels.length) {
+      containerEl.createEl("p", { text: "No data available for the selected view.", cls: "life-domain-embed-empty" });
+      return;
+    }
+    const canvas = containerEl.createEl("canvas");
+    this.chart = createLineChart(canvas, chartData);
+  }
+}
+
+/** Parses block source into chart options, or returns an error message to show in place of the chart. */
+export function parseBlockOptions(plugin: LifeDomainTrackerPlugin, source: string): ChartOptions | string {
+  const values = new Map<string, string[]>();
+  let currentKey: string | null = null;
+  for (const line of source.split("\n")) {
+    const tokens = splitOnCommas(line);
+    for (let i = 0; i < tokens.length; i++) {
+      const trimmed = tokens[i].trim();
+      if (!trimmed) continue;
+      // Only the first colon separates key and value. After a comma, only a known key starts
+      // a new option, so a list value that happens to contain a colon stays a value.
+      const colon = trimmed.indexOf(":");
+      const key = colon > 0 ? trimmed.slice(0, colon).trim().toLowerCase() : "";
+      if (/^[a-z-]+$/.test(key) && (i === 0 || OPTION_KEYS.includes(key))) {
+        if (!OPTION_KEYS.includes(key)) return `Unknown option "${key}". Use one of: ${OPTION_KEYS.join(", ")}.`;
+        currentKey = key;
+        const value = unquote(trimmed.slice(colon + 1).trim());
+        values.set(currentKey, value ? [value] : []);
+      } else if (currentKey) {
+        // A bare value continues the previous key, so `states: Good, Bad` lists two states.
+        if (!LIST_OPTION_KEYS.includes(currentKey) && values.get(currentKey)!.length) {
+          if (/^[a-z-]+$/.test(key)) return `Unknown option "${key}". Use one of: ${OPTION_KEYS.join(", ")}.`;
+          return `Option "${currentKey}" takes one value. Quote values that contain commas.`;
+        }
+        values.get(currentKey)!.push(unquote(trimmed));
+      } else {
+        return `Unrecognized option "${trimmed}".`;
+      }
+    }
+  }
+
+  const first = (key: string) => values.get(key)?.[0];
+
+  const domains = plugin.settings.domains;
+  if (!domains.length) return "No domains configured. Add domains in settings.";
+
+  const domainRef = first("domain");
+  const domain = domainRef
+    ? domains.find((d) => d.id === domainRef) ??
+      domains.find((d) => d.name.trim().toLowerCase() === domainRef.toLowerCase())
+    : domains[0];
+  if (!domain) return `Domain "${domainRef}" not found.`;
+
+  const viewKey = (first("view") ?? "domain") as ViewKey;
+  if (!VIEW_KEYS.includes(viewKey)) return `Unknown view "${viewKey}". Use one of: ${VIEW_KEYS.join(", ")}.`;
+
+  const rangeFrom = first("from");
+  const rangeTo = first("to");
+  for (const value of [rangeFrom, rangeTo]) {
+    if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) return `Invalid date "${value}". Use YYYY-MM-DD.`;
+  }
+  const yearText = first("year");
+  const rangeYear = yearText ? parseInt(yearText, 10) : undefined;
+  if (yearText && !Number.isFinite(rangeYear)) return `Invalid year "${yearText}".`;
+
+  // `from`/`to` or `year` alone imply the matching range.
+  const impliedRange = rangeFrom || rangeTo ? "custom" : yearText ? "year" : "30d";
+  const rangeKey = (first("range") ?? impliedRange) as RangeKey;
+  if (!RANGE_KEYS.includes(rangeKey)) return `Unknown range "${rangeKey}". Use one of: ${RANGE_KEYS.join(", ")}.`;
+
+  const aggregationOverride = (first("aggregation") ?? "default") as AggregationKey;
+  if (!AGGREGATION_KEYS.includes(aggregationOverride)) {
+    return `Unknown aggregation "${aggregationOverride}". Use one of: ${AGGREGATION_KEYS.join(", ")}.`;
+  }
+
+  const stateMetric = (first("metric") ?? "count") as StateMetricKey;
+  if (!STATE_METRIC_KEYS.includes(stateMetric)) {
+    return `Unknown metric "${stateMetric}". Use one of: ${STATE_METRIC_KEYS.join(", ")}.`;
+  }
+
+  const resolution = (first("resolution") ?? "auto") as ResolutionKey;
+  if (!RESOLUTION_KEYS.includes(resolution)) {
+    return `Unknown resolution "${resolution}". Use one of: ${RESOLUTION_KEYS.join(", ")}.`;
+  }
+
+  const bucketMetric = (first("bucket") ?? "sum") as BucketMetricKey;
+  if (!BUCKET_METRIC_KEYS.includes(bucketMetric)) {
+    return `Unknown bucket "${bucketMetric}". Use one of: ${BUCKET_METRIC_KEYS.join(", ")}.`;
+  }
+
+  const lagText = first("lag") ?? "0";
+  const lag = Number(lagText);
+  if (!Number.isInteger(lag) || lag < 0 || lag > MAX_CORRELATION_LAG) {
+    return `Invalid lag "${lagText}". Use a whole number from 0 to ${MAX_CORRELATION_LAG}.`;
+  }
+
+  const tag = first("tag")?.replace(/^#+/, "").toLowerCase();
+
+  const smoothing = (first("smoothing") ?? "false").toLowerCase();
+  if (!["true", "false", "yes", "no", "on", "off"].includes(smoothing)) {
+    return `Invalid smoothing value "${smoothing}". Use true or false.`;
+  }
+
+  let stateIds = domain.states.map((s) => s.id);
+  const stateRefs = values.get("states");
+  if (stateRefs?.length) {
+    stateIds = [];
+    for (const ref of stateRefs) {
+      const state =
+        domain.states.find((s) => s.id === ref) ??
+        domain.states.find((s) => s.name.trim().toLowerCase() === ref.toLowerCase());
+      if (!state) return `State "${ref}" not found in ${domain.name}.`;
+      stateIds.push(state.id);
+    }
+  }
+
+  return {
+    viewKey,
+    domainId: domain.id,
+    rangeKey,
+    rangeYear,
+    rangeFrom,
+    rangeTo,
+    aggregationOverride,
+    stateMetric,
+    smoothingEnabled: ["true", "yes", "on"].includes(smoothing),
+    stateIds,
+    resolution,
+    bucketMetric,
+    lag,
+    tag
+  };
+}
+
+/** Splits one line of block source on commas outside double quotes. */
+function splitOnCommas(line: string): string[] {
+  const tokens: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of line) {
+    if (char === "," && !quoted) {
+      tokens.push(current);
+      current = "";
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    current += char;
+  }
+  tokens.push(current);
+  return tokens;
+}
+
+function unquote(value: string): string {
+  return value.length >= 2 && value.startsWith('"') && value.endsWith('"') ? value.slice(1, -1).trim() : value;
+}
@@ -0,0 +1,92 @@
+import LifeDomainTrackerPlugin, { LifeDomain, LifeDomainSettings, getScoreScale } from "./main";
+import { DomainAggregateIndex, aggregateFromIndex, buildDomainAggregateIndex } from "./view";
+
+export const COMPOSITE_NORMALIZATION_LABELS: Record<LifeDomainSettings["compositeNormalization"], string> = {
+  none: "Raw aggregate",
+  scale: "Scale to the domain score range",
+  zscore: "Standard score (z-score)"
+};
+
+export const COMPOSITE_MISSING_DAY_LABELS: Record<LifeDomainSettings["compositeMissingDays"], string> = {
+  skip: "Skip the domain",
+  zero: "Count as zero",
+  carry: "Carry forward the last value"
+};
+
+/**
+ * Computes the weighted life score for every logged day: the weighted mean of each
+ * domain's normalised aggregate. Days where no weighted domain has a value are left out.
+ */
+export function computeCompositeScores(
+  plugin: LifeDomainTrackerPlugin,
+  aggregateIndex: DomainAggregateIndex = buildDomainAggregateIndex(plugin)
+): Map<string, number> {
+  const { compositeMissingDays } = plugin.settings;
+  const domains = plugin.settings.domains.filter((d) => getDomainWeight(d) > 0);
+  const normalizers = new Map(
+    domains.map((d) => [d.id, buildNormalizer(d, plugin.settings.compositeNormalization, aggregateIndex)] as const)
+  );
+  const lastValues = new Map<string, number>();
+  const scores = new Map<string, number>();
+
+  for (const dateKey of Array.from(aggregateIndex.keys()).sort()) {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const domain of domains) {
+      let value: number | undefined;
+      const count = aggregateIndex.get(dateKey)?.get(domain.id)?.count;
+      if (count) {
+        const raw = aggregateFromIndex(aggregateIndex, dateKey, domain.id, domain.aggregationType);
+        value = normalizers.get(domain.id)!(raw, count);
+        lastValues.set(domain.id, value);
+      } else if (compositeMissingDays === "zero") {
+        value = 0;
+      } else if (compositeMissingDays === "carry") {
+        value = lastValues.get(domain.id);
+      }
+      if (value === undefined) continue;
+      const weight = getDomainWeight(domain);
+      weighted += value * weight;
+      totalWeight += weight;
+    }
+    if (totalWeight) scores.set(dateKey, weighted / totalWeight);
+  }
+  return scores;
+}
+
+export function getDomainWeight(domain: LifeDomain): number {
+  return domain.weight ?? 1;
+}
+
+function buildNormalizer(
+  domain: LifeDomain,
+  normalization: LifeDomainSettings["compositeNormalization"],
+  aggregateIndex: DomainAggregateIndex
+): (value: number, count: number) => number {
+  // Count has no place on the score scale, so it falls back to z-scores.
+  if (normalization === "scale" && domain.aggregationType !== "count") {
+    // Maps the neutral score to 0 and the ends of the domain's scale to -1 and 1.
+    const { min, max, neutral } = getScoreScale(domain);
+    const toScale = (value: number) => {
+      const span = value >= neutral ? max - neutral : neutral - min;
+      return span > 0 ? (value - neutral) / span : 0;
+    };
+    // Sum and net grow with the number of entries; per entry, a sum is back on the scale and net is within -1..1.
+    if (domain.aggregationType === "sum") return (value, count) => toScale(value / count);
+    if (domain.aggregationType === "net") return (value, count) => value / count;
+    return toScale;
+  }
+  if (normalization !== "none") {
+    const values: number[] = [];
+    for (const [dateKey, domains] of aggregateIndex) {
+      if (domains.get(domain.id)?.count) {
+        values.push(aggregateFromIndex(aggregateIndex, dateKey, domain.id, domain.aggregationType));
+      }
+    }
+    const mean = values.reduce((acc, v) => acc + v, 0) / (values.length || 1);
+    const variance = values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / (values.length || 1);
+    const stdDev = Math.sqrt(variance);
+    return (value) => (stdDev ? (value - mean) / stdDev : 0);
+  }
+  return (value) => value;
+}
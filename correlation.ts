@@ -0,0 +1,192 @@
+import LifeDomainTrackerPlugin, { getTodayKey } from "./main";
+import {
+  ChartOptions,
+  aggregateValue,
+  buildDomainAggregateIndex,
+  buildStateMetricIndex,
+  heatColor,
+  resolveDateRange
+} from "./view";
+
+export const MAX_CORRELATION_LAG = 7;
+// Pairs with fewer overlapping days than this are too noisy to report.
+const MIN_CORRELATION_SAMPLES = 5;
+const TOP_PAIR_COUNT = 5;
+
+/** One daily variable: a domain's aggregate score or a state's count, keyed by day. */
+export interface CorrelationSeries {
+  id: string;
+  label: string;
+  domainId: string;
+  values: Map<string, number>;
+}
+
+export interface CorrelationPair {
+  leading: CorrelationSeries;
+  following: CorrelationSeries;
+  /** Pearson coefficient, or null when there are too few samples or no variance. */
+  r: number | null;
+  n: number;
+}
+
+/**
+ * Builds one series per domain and per state. A day only has a value when its
+ * domain was logged that day, so untracked days never count as zero.
+ */
+export function buildCorrelationSeries(plugin: LifeDomainTrackerPlugin, options: ChartOptions): CorrelationSeries[] {
+  const { start, end } = resolveDateRange(options, plugin.settings);
+  const inRange = (dateKey: string) => (!start || dateKey >= start) && dateKey <= end;
+  const aggregateIndex = buildDomainAggregateIndex(plugin);
+  const series: CorrelationSeries[] = [];
+
+  for (const domain of plugin.settings.domains) {
+    const aggregation =
+      options.aggregationOverride === "default" ? domain.aggregationType : options.aggregationOverride;
+    const domainValues = new Map<string, number>();
+    for (const [dateKey, domains] of aggregateIndex) {
+      const agg = domains.get(domain.id);
+      if (agg && agg.count && inRange(dateKey)) domainValues.set(dateKey, aggregateValue(agg, aggregation));
+    }
+    series.push({ id: domain.id, label: domain.name || "Unnamed", domainId: domain.id, values: domainValues });
+
+    const stateIndex = buildStateMetricIndex(plugin, domain.id, options.stateMetric);
+    for (const state of domain.states) {
+      const stateValues = new Map<string, number>();
+      for (const [dateKey, counts] of stateIndex) {
+        if (inRange(dateKey)) stateValues.set(dateKey, counts.get(state.id) ?? 0);
+      }
+      series.push({
+        id: state.id,
+        label: `${domain.name || "Unnamed"}: ${state.name || "Unnamed"}`,
+        domainId: domain.id,
+        values: stateValues
+      });
+    }
+  }
+  return series;
+}
+
+/** Correlates `leading` on day d with `following` on day d + lag. */
+export function correlatePair(leading: CorrelationSeries, following: CorrelationSeries, lag: number): CorrelationPair {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const [dateKey, x] of leading.values) {
+    const y = following.values.get(lag ? shiftDateKey(dateKey, lag) : dateKey);
+    if (y === undefined) continue;
+    xs.push(x);
+    ys.push(y);
+  }
+  const n = xs.length;
+  return { leading, following, r: n >= MIN_CORRELATION_SAMPLES ? pearson(xs, ys) : null, n };
+}
+
+/**
+ * Ranks every pair across different domains. Pairs within one domain are left out
+ * because a domain's score is built from its own states.
+ */
+export function findTopCorrelations(
+  series: CorrelationSeries[],
+  lag: number
+): { positive: CorrelationPair[]; negative: CorrelationPair[] } {
+  const pairs: CorrelationPair[] = [];
+  series.forEach((leading, i) => {
+    series.forEach((following, j) => {
+      if (leading.domainId === following.domainId) return;
+      // Same-day correlation is symmetric, so each pair only needs one direction.
+      if (lag === 0 && j <= i) return;
+      const pair = correlatePair(leading, following, lag);
+      if (pair.r !== null) pairs.push(pair);
+    });
+  });
+  return {
+    positive: pairs
+      .filter((p) => p.r! > 0)
+      .sort((a, b) => b.r! - a.r!)
+      .slice(0, TOP_PAIR_COUNT),
+    negative: pairs
+      .filter((p) => p.r! < 0)
+      .sort((a, b) => a.r! - b.r!)
+      .slice(0, TOP_PAIR_COUNT)
+  };
+}
+
+/** Renders a matrix of every domain plus the selected domain's states, then the strongest pairs overall. */
+export function renderCorrelation(plugin: LifeDomainTrackerPlugin, container: HTMLElement, options: ChartOptions) {
+  const lag = Math.max(0, Math.min(MAX_CORRELATION_LAG, Math.round(options.lag)));
+  const series = buildCorrelationSeries(plugin, options);
+  const matrixSeries = series.filter((s) => s.id === s.domainId || s.domainId === options.domainId);
+
+  const wrapper = container.createDiv({ cls: "life-domain-correlation" });
+  wrapper.createEl("p", {
+    text: lag
+      ? `Rows on a given day against columns ${lag} day${lag === 1 ? "" : "s"} later (Pearson r).`
+      : "Same-day correlation (Pearson r).",
+    cls: "life-domain-correlation-caption"
+  });
+
+  const table = wrapper.createEl("table", { cls: "life-domain-correlation-matrix" });
+  const headerRow = table.createEl("tr");
+  headerRow.createEl("th");
+  for (const column of matrixSeries) headerRow.createEl("th", { text: column.label });
+  for (const rowSeries of matrixSeries) {
+    const row = table.createEl("tr");
+    row.createEl("th", { text: rowSeries.label });
+    for (const column of matrixSeries) {
+      const pair = correlatePair(rowSeries, column, lag);
+      const cell = row.createEl("td", { text: pair.r === null ? "–" : pair.r.toFixed(2) });
+      if (pair.r !== null) cell.style.backgroundColor = heatColor(pair.r, Math.abs(pair.r));
+      cell.setAttr("title", `${describePair(pair, lag)} • ${formatPairStats(pair)}`);
+    }
+  }
+
+  const top = findTopCorrelations(series, lag);
+  renderPairList(wrapper, "Strongest positive", top.positive, lag);
+  renderPairList(wrapper, "Strongest negative", top.negative, lag);
+}
+
+function renderPairList(container: HTMLElement, title: string, pairs: CorrelationPair[], lag: number) {
+  const section = container.createDiv({ cls: "life-domain-correlation-pairs" });
+  section.createEl("h4", { text: title });
+  if (!pairs.length) {
+    section.createEl("p", { text: `Not enough overlapping days (at least ${MIN_CORRELATION_SAMPLES} needed).` });
+    return;
+  }
+  const list = section.createEl("ul");
+  for (const pair of pairs) {
+    const item = list.createEl("li");
+    item.createEl("span", { text: describePair(pair, lag) });
+    item.createEl("span", { text: formatPairStats(pair), cls: "life-domain-badge" });
+  }
+}
+
+function describePair(pair: CorrelationPair, lag: number): string {
+  const arrow = lag ? "→" : "↔";
+  return `${pair.leading.label} ${arrow} ${pair.following.label}`;
+}
+
+function formatPairStats(pair: CorrelationPair): string {
+  return pair.r === null ? `n = ${pair.n}` : `r = ${pair.r.toFixed(2)}, n = ${pair.n}`;
+}
+
+function pearson(xs: number[], ys: number[]): number | null {
+  const n = xs.length;
+  const meanX = xs.reduce((acc, v) => acc + v, 0) / n;
+  const meanY = ys.reduce((acc, v) => acc + v, 0) / n;
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  if (!varX || !varY) return null;
+  return cov / Math.sqrt(varX * varY);
+}
+
+function shiftDateKey(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map((v) => Number(v));
+  return getTodayKey(new Date(y, m - 1, d + days));
+}
@@ -0,0 +1,171 @@
+import LifeDomainTrackerPlugin, {
+  LifeDomain,
+  LifeDomainGoal,
+  classifyScore,
+  dateFromKey,
+  getCurrentDateKey,
+  getTodayKey
+} from "./main";
+import { DomainAggregateIndex, aggregateValue, buildDomainAggregateIndex, mergeAggregates } from "./view";
+
+export const GOAL_KIND_LABELS: Record<LifeDomainGoal["kind"], string> = {
+  aggregate: "Aggregate score",
+  "state-count": "State logged",
+  "good-count": "GOOD states",
+  "bad-count": "BAD states"
+};
+
+export interface GoalStatus {
+  goal: LifeDomainGoal;
+  currentValue: number;
+  currentMet: boolean;
+  currentStreak: number;
+  longestStreak: number;
+  completionRate: number;
+  periodsEvaluated: number;
+}
+
+export function describeGoal(domain: LifeDomain, goal: LifeDomainGoal): string {
+  const comparator = goal.comparator === "gte" ? "≥" : "≤";
+  const period = goal.period === "week" ? "per week" : "per day";
+  if (goal.kind === "state-count") {
+    const state = domain.states.find((s) => s.id === goal.stateId);
+    return `${state?.name || "Unknown state"} ${comparator} ${goal.target}× ${period}`;
+  }
+  return `${GOAL_KIND_LABELS[goal.kind]} ${comparator} ${goal.target} ${period}`;
+}
+
+export function evaluateDomainGoals(
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  aggregateIndex: DomainAggregateIndex = buildDomainAggregateIndex(plugin)
+): GoalStatus[] {
+  return (domain.goals ?? []).map((goal) => evaluateGoal(plugin, domain, goal, aggregateIndex));
+}
+
+/**
+ * Walks every period from the domain's first log to today. A period still in
+ * progress only counts once it is met, so an unfinished day never breaks a streak,
+ * except for "at most" goals that are already exceeded.
+ */
+export function evaluateGoal(
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  goal: LifeDomainGoal,
+  aggregateIndex: DomainAggregateIndex
+): GoalStatus {
+  const todayKey = getCurrentDateKey(plugin.settings);
+  const domainDates = Object.keys(plugin.dataStore.logs)
+    .filter((d) => plugin.dataStore.logs[d]?.[domain.id]?.length && d <= todayKey)
+    .sort();
+  const status: GoalStatus = {
+    goal,
+    currentValue: 0,
+    currentMet: false,
+    currentStreak: 0,
+    longestStreak: 0,
+    completionRate: 0,
+    periodsEvaluated: 0
+  };
+  if (!domainDates.length) return status;
+
+  const periods = buildPeriods(domainDates[0], todayKey, goal.period);
+  let streak = 0;
+  let met = 0;
+  periods.forEach((dates, idx) => {
+    const value = goalValue(plugin, domain, goal, dates, aggregateIndex);
+    const isMet = goal.comparator === "gte" ? value >= goal.target : value <= goal.target;
+    const inProgress = idx === periods.length - 1;
+    if (inProgress) {
+      status.currentValue = value;
+      status.currentMet = isMet;
+      if (!isMet && goal.comparator === "gte") return;
+    }
+    status.periodsEvaluated++;
+    if (isMet) {
+      met++;
+      streak++;
+      status.longestStreak = Math.max(status.longestStreak, streak);
+    } else {
+      streak = 0;
+    }
+  });
+
+  status.currentStreak = streak;
+  status.completionRate = status.periodsEvaluated ? met / status.periodsEvaluated : 0;
+  return status;
+}
+
+/** Takes the aggregate index from the caller, so a view showing several domains builds it once. */
+export function renderGoalStatus(
+  container: HTMLElement,
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  aggregateIndex: DomainAggregateIndex
+) {
+  const statuses = evaluateDomainGoals(plugin, domain, aggregateIndex);
+  if (!statuses.length) return;
+  const list = container.createDiv({ cls: "life-domain-goals" });
+  for (const status of statuses) {
+    const row = list.createDiv({ cls: "life-domain-goal-row" });
+    row.addClass(status.currentMet ? "is-met" : "is-open");
+    row.createEl("span", { text: describeGoal(domain, status.goal), cls: "life-domain-goal-title" });
+    row.createEl("span", { text: formatGoalStatus(status), cls: "life-domain-badge" });
+  }
+}
+
+export function formatGoalStatus(status: GoalStatus): string {
+  const rate = Math.round(status.completionRate * 100);
+  return `Now ${formatNumber(status.currentValue)} • Streak ${status.currentStreak} (best ${status.longestStreak}) • ${rate}%`;
+}
+
+function goalValue(
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  goal: LifeDomainGoal,
+  dates: string[],
+  aggregateIndex: DomainAggregateIndex
+): number {
+  if (goal.kind === "aggregate") {
+    return aggregateValue(mergeAggregates(aggregateIndex, dates, domain.id), domain.aggregationType);
+  }
+
+  let count = 0;
+  for (const dateKey of dates) {
+    for (const entry of plugin.getLogsForDate(dateKey, domain.id)) {
+      if (goal.kind === "state-count" && entry.stateId === goal.stateId) count++;
+      if (goal.kind === "good-count" && classifyScore(domain, entry.score) === "good") count++;
+      if (goal.kind === "bad-count" && classifyScore(domain, entry.score) === "bad") count++;
+    }
+  }
+  return count;
+}
+
+function buildPeriods(startKey: string, endKey: string, period: LifeDomainGoal["period"]): string[][] {
+  const periods: string[][] = [];
+  const cursor = dateFromKey(startKey);
+  if (period === "week") {
+    // Weeks start on Monday.
+    cursor.setDate(cursor.getDate() - ((cursor.getDay() + 6) % 7));
+  }
+  let current: string[] = [];
+  while (getTodayKey(cursor) <= endKey) {
+    const key = getTodayKey(cursor);
+    if (period === "week" && cursor.getDay() === 1 && current.length) {
+      periods.push(current);
+      current = [];
+    }
+    current.push(key);
+    if (period === "day") {
+      periods.push(current);
+      current = [];
+    }
+    cursor.setDate(cursor.getDate() + 1);
+  }
+  if (current.length) periods.push(current);
+  return periods;
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
@@ -0,0 +1,4 @@
+/** Short random id for domains, states, log entries and the like. Kept free of imports so any module can use it. */
+export function generateId(): string {
+  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+}
@@ -0,0 +1,303 @@
+import { Notice } from "obsidian";
+import LifeDomainTrackerPlugin, { DomainLogEntry, LifeDomainSettings, RunningSession, generateId } from "./main";
+
+export const TRASH_RETENTION_DAYS = 30;
+const JOURNAL_LIMIT = 50;
+// Steps that change more log entries than this are not kept, so data.json never holds a copy of the whole history.
+export const JOURNAL_STEP_ENTRY_LIMIT = 1000;
+// Settings edits this close together (typing a name, dragging a slider) are undone as one step.
+const SETTINGS_COALESCE_MS = 5 * 1000;
+const SETTINGS_EDIT_LABEL = "Edit settings";
+
+/** Day buckets keyed by `bucketKey`; null where the bucket did not exist. */
+type LogBuckets = Record<string, DomainLogEntry[] | null>;
+
+/** A log entry and the day bucket it is filed in. */
+export interface BucketEntry {
+  dateKey: string;
+  domainId: string;
+  entry: DomainLogEntry;
+}
+
+/** One undoable step: the log entries it changed, and settings and sessions before and after. */
+export interface JournalEntry {
+  id: string;
+  ts: number;
+  label: string;
+  /** Entries the step removed or replaced, as they were before it. */
+  logsRemoved: BucketEntry[];
+  /** Entries the step added or replaced, as they are after it. */
+  logsAdded: BucketEntry[];
+  settingsBefore?: string;
+  settingsAfter?: string;
+  sessionsBefore?: RunningSession[];
+  sessionsAfter?: RunningSession[];
+}
+
+export interface TrashedLogEntry {
+  entry: DomainLogEntry;
+  dateKey: string;
+  domainId: string;
+  deletedAt: number;
+}
+
+/**
+ * Records every change to logs, running sessions and settings so it can be undone and redone,
+ * and moves deleted log entries to the trash. The journal is kept in data.json, so each step
+ * holds only the log entries it changed, and steps that change very many are not kept.
+ *
+ * Mutations wrap their work in `begin`/`end` and call `touch` before changing a day bucket;
+ * the step is recorded on the next save. Settings edits outside a group are picked up by
+ * comparing against the last snapshot.
+ */
+export class ChangeJournal {
+  plugin: LifeDomainTrackerPlugin;
+  private depth = 0;
+  private label: string | null = null;
+  private logsBefore: LogBuckets = {};
+  private settingsSnapshot: string | null = null;
+  private sessionsSnapshot = "[]";
+
+  constructor(plugin: LifeDomainTrackerPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Takes fresh snapshots without recording anything, e.g. after loading or replacing all data. */
+  sync() {
+    this.settingsSnapshot = snapshotSettings(this.plugin.settings);
+    this.sessionsSnapshot = JSON.stringify(this.plugin.dataStore.runningSessions ?? []);
+  }
+
+  /** Drops the undo and redo history, keeping the trash. */
+  clear() {
+    this.plugin.dataStore.journal = [];
+    this.plugin.dataStore.redoJournal = [];
+    this.sync();
+  }
+
+  /** Groups every change until the matching `end` into one step, named after the outermost call. */
+  begin(label: string) {
+    if (this.depth++ === 0) {
+      this.label = label;
+      this.logsBefore = {};
+    }
+  }
+
+  end() {
+    this.depth = Math.max(0, this.depth - 1);
+  }
+
+  /** Call before changing a day bucket so its previous contents can be restored. */
+  touch(dateKey: string, domainId: string) {
+    if (!this.depth) return;
+    const key = bucketKey(dateKey, domainId);
+    if (key in this.logsBefore) return;
+    this.logsBefore[key] = cloneBucket(this.plugin.dataStore.logs[dateKey]?.[domainId]);
+  }
+
+  /** Records whatever changed since the last snapshot. Called on every save; does nothing inside a group. */
+  record() {
+    if (this.depth) return;
+    if (this.settingsSnapshot === null) {
+      this.sync();
+      return;
+    }
+    const label = this.label;
+    const logsBefore = this.logsBefore;
+    this.label = null;
+    this.logsBefore = {};
+
+    const { removed, added } = diffBuckets(logsBefore, this.readBuckets(Object.keys(logsBefore)));
+    const settings = snapshotSettings(this.plugin.settings);
+    const sessions = JSON.stringify(this.plugin.dataStore.runningSessions ?? []);
+    const logsChanged = removed.length > 0 || added.length > 0;
+    const settingsChanged = settings !== this.settingsSnapshot;
+    const sessionsChanged = sessions !== this.sessionsSnapshot;
+    if (!logsChanged && !settingsChanged && !sessionsChanged) return;
+
+    const now = Date.now();
+    const journal = this.getJournal();
+    const last = journal[journal.length - 1];
+    const settingsEdit = !label && !logsChanged && !sessionsChanged;
+    if (removed.length + added.length > JOURNAL_STEP_ENTRY_LIMIT) {
+      // Earlier steps may no longer apply cleanly on top of an unrecorded one, so they go too.
+      journal.length = 0;
+      new Notice(`${label ?? SETTINGS_EDIT_LABEL} changed too many logs to be undone.`);
+    } else if (
+      settingsEdit &&
+      last?.label === SETTINGS_EDIT_LABEL &&
+      now - last.ts < SETTINGS_COALESCE_MS &&
+      !this.plugin.dataStore.redoJournal?.length
+    ) {
+      last.settingsAfter = settings;
+      last.ts = now;
+    } else {
+      const entry: JournalEntry = {
+        id: generateId(),
+        ts: now,
+        label: label ?? SETTINGS_EDIT_LABEL,
+        logsRemoved: removed,
+        logsAdded: added
+      };
+      if (settingsChanged) {
+        entry.settingsBefore = this.settingsSnapshot;
+        entry.settingsAfter = settings;
+      }
+      if (sessionsChanged) {
+        entry.sessionsBefore = JSON.parse(this.sessionsSnapshot);
+        entry.sessionsAfter = JSON.parse(sessions);
+      }
+      journal.push(entry);
+      if (journal.length > JOURNAL_LIMIT) journal.splice(0, journal.length - JOURNAL_LIMIT);
+    }
+    this.plugin.dataStore.redoJournal = [];
+    this.updateTrash(removed, added, now);
+    this.settingsSnapshot = settings;
+    this.sessionsSnapshot = sessions;
+  }
+
+  getUndoLabel(): string | null {
+    const journal = this.plugin.dataStore.journal ?? [];
+    return journal[journal.length - 1]?.label ?? null;
+  }
+
+  getRedoLabel(): string | null {
+    const redo = this.plugin.dataStore.redoJournal ?? [];
+    return redo[redo.length - 1]?.label ?? null;
+  }
+
+  async undo(): Promise<boolean> {
+    const entry = this.plugin.dataStore.journal?.pop();
+    if (!entry) {
+      new Notice("Nothing to undo.");
+      return false;
+    }
+    this.apply(entry.logsAdded, entry.logsRemoved, entry.settingsBefore, entry.sessionsBefore);
+    if (!this.plugin.dataStore.redoJournal) this.plugin.dataStore.redoJournal = [];
+    this.plugin.dataStore.redoJournal.push(entry);
+    await this.afterApply(entry, `Undid: ${entry.label}`);
+    return true;
+  }
+
+  async redo(): Promise<boolean> {
+    const entry = this.plugin.dataStore.redoJournal?.pop();
+    if (!entry) {
+      new Notice("Nothing to redo.");
+      return false;
+    }
+    this.apply(entry.logsRemoved, entry.logsAdded, entry.settingsAfter, entry.sessionsAfter);
+    this.getJournal().push(entry);
+    await this.afterApply(entry, `Redid: ${entry.label}`);
+    return true;
+  }
+
+  /** Removes trashed entries older than the retention period. */
+  purgeTrash(now: number = Date.now()) {
+    const cutoff = now - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const trash = this.plugin.dataStore.trash;
+    if (trash?.some((t) => t.deletedAt < cutoff)) {
+      this.plugin.dataStore.trash = trash.filter((t) => t.deletedAt >= cutoff);
+    }
+  }
+
+  /** Takes `remove` out of the logs and puts `add` back in, then restores settings and sessions if given. */
+  private apply(remove: BucketEntry[], add: BucketEntry[], settings?: string, sessions?: RunningSession[]) {
+    const logs = this.plugin.dataStore.logs;
+    for (const { dateKey, domainId, entry } of remove) {
+      const bucket = logs[dateKey]?.[domainId];
+      if (!bucket) continue;
+      const index = bucket.findIndex((e) => e.id === entry.id);
+      if (index >= 0) bucket.splice(index, 1);
+      if (!bucket.length) delete logs[dateKey][domainId];
+      if (!Object.keys(logs[dateKey]).length) delete logs[dateKey];
+    }
+    for (const { dateKey, domainId, entry } of add) {
+      if (!logs[dateKey]) logs[dateKey] = {};
+      if (!logs[dateKey][domainId]) logs[dateKey][domainId] = [];
+      logs[dateKey][domainId].push({ ...entry });
+      logs[dateKey][domainId].sort((a, b) => a.ts - b.ts);
+    }
+    this.updateTrash(remove, add, Date.now());
+    if (settings !== undefined) {
+      // The backup schedule and log storage are not part of the journal, so they are left as they are.
+      const { lastBackupAt, logStorage, logFolder } = this.plugin.settings;
+      this.plugin.settings = { ...(JSON.parse(settings) as LifeDomainSettings), lastBackupAt, logStorage, logFolder };
+    }
+    if (sessions !== undefined) this.plugin.dataStore.runningSessions = JSON.parse(JSON.stringify(sessions));
+    this.sync();
+  }
+
+  private async afterApply(entry: JournalEntry, message: string) {
+    await this.plugin.saveSettings();
+    this.plugin.notifyLogsChanged();
+    if (entry.settingsBefore !== undefined) this.plugin.refreshSettingTab();
+    new Notice(message);
+  }
+
+  /** Trashes entries that were removed and not added back elsewhere, and un-trashes entries that came back. */
+  private updateTrash(removed: BucketEntry[], added: BucketEntry[], now: number) {
+    const addedIds = new Set(added.map((a) => a.entry.id));
+    const trash = (this.plugin.dataStore.trash ?? []).filter((t) => !addedIds.has(t.entry.id));
+    for (const { dateKey, domainId, entry } of removed) {
+      if (!addedIds.has(entry.id)) trash.push({ entry: { ...entry }, dateKey, domainId, deletedAt: now });
+    }
+    this.plugin.dataStore.trash = trash;
+  }
+
+  private readBuckets(keys: string[]): LogBuckets {
+    const buckets: LogBuckets = {};
+    for (const key of keys) {
+      const { dateKey, domainId } = parseBucketKey(key);
+      buckets[key] = cloneBucket(this.plugin.dataStore.logs[dateKey]?.[domainId]);
+    }
+    return buckets;
+  }
+
+  private getJournal(): JournalEntry[] {
+    if (!this.plugin.dataStore.journal) this.plugin.dataStore.journal = [];
+    return this.plugin.dataStore.journal;
+  }
+}
+
+function bucketKey(dateKey: string, domainId: string): string {
+  return `${dateKey}|${domainId}`;
+}
+
+function parseBucketKey(key: string): { dateKey: string; domainId: string } {
+  const index = key.indexOf("|");
+  return { dateKey: key.slice(0, index), domainId: key.slice(index + 1) };
+}
+
+/** Entries that differ between two snapshots of the same buckets, matched by id. */
+function diffBuckets(before: LogBuckets, after: LogBuckets): { removed: BucketEntry[]; added: BucketEntry[] } {
+  const removed: BucketEntry[] = [];
+  const added: BucketEntry[] = [];
+  const beforeById = new Map<string, string>();
+  const afterById = new Map<string, string>();
+  const collect = (buckets: LogBuckets, byId: Map<string, string>) => {
+    for (const [key, bucket] of Object.entries(buckets)) {
+      for (const entry of bucket ?? []) byId.set(entry.id, `${key}|${JSON.stringify(entry)}`);
+    }
+  };
+  collect(before, beforeById);
+  collect(after, afterById);
+  const diff = (buckets: LogBuckets, own: Map<string, string>, other: Map<string, string>, into: BucketEntry[]) => {
+    for (const [key, bucket] of Object.entries(buckets)) {
+      const { dateKey, domainId } = parseBucketKey(key);
+      for (const entry of bucket ?? []) {
+        if (other.get(entry.id) !== own.get(entry.id)) into.push({ dateKey, domainId, entry });
+      }
+    }
+  };
+  diff(before, beforeById, afterById, removed);
+  diff(after, afterById, beforeById, added);
+  return { removed, added };
+}
+
+function cloneBucket(bucket: DomainLogEntry[] | undefined | null): DomainLogEntry[] | null {
+  return bucket?.length ? bucket.map((entry) => ({ ...entry })) : null;
+}
+
+function snapshotSettings(settings: LifeDomainSettings): string {
+  return JSON.stringify({ ...settings, lastBackupAt: undefined, logStorage: undefined, logFolder: undefined });
+}
@@ -1,6 +1,25 @@
-import { Notice, Plugin, normalizePath } from "obsidian";
+import { Events, Notice, Plugin, TAbstractFile, normalizePath } from "obsidian";
 import { LifeDomainSettingsTab } from "./settings";
-import { DeleteLogsModal } from "./modals";
+import {
+  DeleteLogsModal,
+  ImportCsvModal,
+  NotePromptModal,
+  RecentlyDeletedModal,
+  RestoreBackupModal,
+  ReviewNoteModal,
+  SyncConflictModal,
+  ValuePromptModal
+} from "./modals";
+import { writeBackup } from "./backup";
+import { ChangeJournal, JournalEntry, TrashedLogEntry } from "./journal";
+import { SCHEMA_VERSION, migrateStorage, writeMigrationBackup } from "./migrations";
+import { generateId } from "./ids";
+import { DEFAULT_LOG_FOLDER, VaultLogStore } from "./storage";
+import { DEFAULT_REVIEW_FOLDER } from "./review";
+import { LogMergeResult, SettingsConflict, applyRemoteSide, mergeLogs, mergeStorage } from "./sync";
+import { ReminderManager } from "./reminders";
+import { LifeDomainTrackerApi } from "./api";
+import { CODE_BLOCK_LANGUAGE, DomainChartBlock } from "./codeblock";
 import {
   DomainPerformanceView,
   LogTimelineView,
@@ -8,44 +27,187 @@ import {
   VIEW_TYPE_LOG_TIMELINE
 } from "./view";
 
+/** Maps a measured value to a score: `min` is inclusive, `max` exclusive, and either may be open. */
+export interface StateScoreRange {
+  min?: number;
+  max?: number;
+  score: number;
+}
+
 export interface LifeDomainState {
   id: string;
   name: string;
+  /** Fixed score, or the fallback for measured values no range covers. */
   score: number;
+  /**
+   * "measured" states ask for a number when logged; "duration" states are started
+   * and stopped as sessions. Defaults to "label".
+   */
+  kind?: "label" | "measured" | "duration";
+  unit?: string;
+  scoreRanges?: StateScoreRange[];
+  /** Hex colour used in charts and labels. */
+  color?: string;
+  /** Lucide icon name. */
+  icon?: string;
+  tags?: string[];
+  /** Hidden from logging; existing logs still show in charts. */
+  archived?: boolean;
+}
+
+export interface LifeDomainGoal {
+  id: string;
+  kind: "aggregate" | "state-count" | "good-count" | "bad-count";
+  stateId?: string;
+  comparator: "gte" | "lte";
+  target: number;
+  period: "day" | "week";
+}
+
+export interface LifeDomainReminder {
+  id: string;
+  time: string;
+  stateId?: string;
+  enabled: boolean;
+}
+
+export interface LifeDomainScale {
+  min: number;
+  max: number;
+  step: number;
+  /** Scores above this are GOOD, scores below it BAD, and a score equal to it NEUTRAL. */
+  neutral: number;
 }
 
+export type ScoreKind = "good" | "bad" | "neutral";
+
+export type AggregationType =
+  | "sum"
+  | "average"
+  | "worst"
+  | "best"
+  | "median"
+  | "last"
+  | "count"
+  | "net"
+  | "weighted";
+
 export interface LifeDomain {
   id: string;
   name: string;
   states: LifeDomainState[];
-  aggregationType: "sum" | "average" | "worst";
+  aggregationType: AggregationType;
+  /** Range of state scores; defaults to -2..2 in steps of 1 with 0 as neutral. */
+  scale?: LifeDomainScale;
+  color?: string;
+  icon?: string;
+  tags?: string[];
+  /** Hidden from logging, with all its states; existing logs still show in charts. */
+  archived?: boolean;
+  /** Share of the composite life score; 0 leaves the domain out. Defaults to 1. */
+  weight?: number;
+  goals?: LifeDomainGoal[];
+  reminders?: LifeDomainReminder[];
 }
 
 export interface LifeDomainSettings {
   domains: LifeDomain[];
+  backupFolder: string;
+  backupIntervalHours: number;
+  backupRetention: number;
+  lastBackupAt?: number;
+  reminderStyle: "notice" | "banner";
+  reminderSnoozeMinutes: number;
+  quickLogWithNote: boolean;
+  compositeNormalization: "none" | "scale" | "zscore";
+  /** How a domain with no logs on a day counts towards that day's life score. */
+  compositeMissingDays: "skip" | "zero" | "carry";
+  /** Where logs are kept: in data.json, or as month files in `logFolder`. */
+  logStorage: "data" | "vault";
+  logFolder: string;
+  /** Hour (0–23) at which a new day starts; logs before it count towards the previous day. */
+  dayStartHour: number;
+  /** Date logs by the time zone they were recorded in (`tzOffset`) rather than the device's current one. */
+  useLoggedTimeZone: boolean;
+  reviewFolder: string;
+  /** Vault note used as the review template; empty for the built-in one. */
+  reviewTemplatePath: string;
 }
 
 export interface DomainLogEntry {
+  id: string;
   stateId: string;
   score: number;
   ts: number;
   note?: string;
+  /** `Date.getTimezoneOffset()` where the entry was logged, in minutes. */
   tzOffset?: number;
+  /** Value entered for a measured state, in the state's unit. */
+  value?: number;
+  /** End of a duration session; `ts` is its start. */
+  endTs?: number;
+}
+
+/** A duration session that has been started but not stopped yet. */
+export interface RunningSession {
+  id: string;
+  domainId: string;
+  stateId: string;
+  startTs: number;
+  note?: string;
+}
+
+export interface ImportLogRow {
+  stateName: string;
+  ts: number;
+  score?: number;
+  note?: string;
+  value?: number;
 }
 
 export interface LifeDomainDataStore {
   logs: Record<string, Record<string, DomainLogEntry[]>>;
+  reminderState?: Record<string, { lastFiredDate?: string; snoozedUntil?: number }>;
+  runningSessions?: RunningSession[];
+  journal?: JournalEntry[];
+  redoJournal?: JournalEntry[];
+  /** Deleted log entries, kept for `TRASH_RETENTION_DAYS`. */
+  trash?: TrashedLogEntry[];
 }
 
-interface LifeDomainStorage {
+export interface LifeDomainStorage {
+  /** Missing in data saved before versioning; see `migrations.ts`. */
+  schemaVersion?: number;
   settings: LifeDomainSettings;
   data: LifeDomainDataStore;
 }
 
 export const DEFAULT_SETTINGS: LifeDomainSettings = {
-  domains: []
+  domains: [],
+  backupFolder: "life-domain-tracker-backups",
+  backupIntervalHours: 0,
+  backupRetention: 7,
+  reminderStyle: "notice",
+  reminderSnoozeMinutes: 15,
+  quickLogWithNote: false,
+  compositeNormalization: "scale",
+  compositeMissingDays: "skip",
+  logStorage: "data",
+  logFolder: DEFAULT_LOG_FOLDER,
+  dayStartHour: 0,
+  useLoggedTimeZone: true,
+  reviewFolder: DEFAULT_REVIEW_FOLDER,
+  reviewTemplatePath: ""
 };
 
+export const DEFAULT_SCORE_SCALE: LifeDomainScale = { min: -2, max: 2, step: 1, neutral: 0 };
+
+const BACKUP_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+export const LOGS_CHANGED_EVENT = "logs-changed";
+
+export { generateId };
+
 const DEFAULT_DATA: LifeDomainDataStore = {
   logs: {}
 };
@@ -53,15 +215,38 @@ const DEFAULT_DATA: LifeDomainDataStore = {
 export default class LifeDomainTrackerPlugin extends Plugin {
   settings!: LifeDomainSettings;
   dataStore!: LifeDomainDataStore;
+  reminders!: ReminderManager;
+  events = new Events();
+  journal = new ChangeJournal(this);
+  logStore = new VaultLogStore(this);
+  settingTab!: LifeDomainSettingsTab;
+  api!: LifeDomainTrackerApi;
+  private quickLogCommandIds: string[] = [];
+  private quickLogSignature = "";
+  // data.json as last read or written: the common base when merging changes from another device.
+  private persistedData: string | null = null;
 
   async onload() {
-    await this.loadSettings();
+    try {
+      await this.loadSettings();
+    } catch (error) {
+      // Nothing is registered, so nothing can save over data this version could not read.
+      console.error("Life Domain Tracker: failed to load data", error);
+      new Notice(`Life Domain Tracker did not start. ${(error as Error).message}`, 0);
+      return;
+    }
+    this.api = new LifeDomainTrackerApi(this);
 
-    this.addSettingTab(new LifeDomainSettingsTab(this.app, this));
+    this.settingTab = new LifeDomainSettingsTab(this.app, this);
+    this.addSettingTab(this.settingTab);
 
     this.registerView(VIEW_TYPE_DOMAIN_PERFORMANCE, (leaf) => new DomainPerformanceView(leaf, this));
     this.registerView(VIEW_TYPE_LOG_TIMELINE, (leaf) => new LogTimelineView(leaf, this));
 
+    this.registerMarkdownCodeBlockProcessor(CODE_BLOCK_LANGUAGE, (source, el, ctx) => {
+      ctx.addChild(new DomainChartBlock(el, this, source));
+    });
+
     this.addCommand({
       id: "log-domain-state",
       name: "Log Domain State",
@@ -79,62 +264,748 @@ export default class LifeDomainTrackerPlugin extends Plugin {
       name: "Delete Domain Logs",
       callback: () => new DeleteLogsModal(this.app, this).open()
     });
+
+    this.addCommand({
+      id: "undo-last-change",
+      name: "Undo Last Change",
+      callback: () => void this.journal.undo()
+    });
+
+    this.addCommand({
+      id: "redo-last-change",
+      name: "Redo Last Change",
+      callback: () => void this.journal.redo()
+    });
+
+    this.addCommand({
+      id: "show-recently-deleted",
+      name: "Show Recently Deleted Logs",
+      callback: () => new RecentlyDeletedModal(this.app, this).open()
+    });
+
+    this.addCommand({
+      id: "rebuild-log-dates",
+      name: "Rebuild Log Dates",
+      callback: async () => new Notice(describeRekeyResult(await this.rekeyLogs()))
+    });
+
+    this.addCommand({
+      id: "generate-review-note",
+      name: "Generate Review Note",
+      callback: () => new ReviewNoteModal(this.app, this).open()
+    });
+
+    this.addCommand({
+      id: "import-domain-logs-csv",
+      name: "Import Domain Logs from CSV",
+      callback: () => new ImportCsvModal(this.app, this).open()
+    });
+
+    this.addCommand({
+      id: "export-everything",
+      name: "Export Everything",
+      callback: () => void this.exportBackup()
+    });
+
+    this.addCommand({
+      id: "restore-from-backup",
+      name: "Restore from Backup",
+      callback: () => new RestoreBackupModal(this.app, this).open()
+    });
+
+    this.registerInterval(window.setInterval(() => void this.runScheduledBackup(), BACKUP_CHECK_INTERVAL_MS));
+    this.app.workspace.onLayoutReady(() => void this.runScheduledBackup());
+
+    this.reminders = new ReminderManager(this);
+    this.reminders.start();
+
+    this.app.workspace.onLayoutReady(() => {
+      // Registered once the vault is indexed, so the initial create events are not treated as sync.
+      const onLogFileEvent = (file: TAbstractFile) => void this.mergeExternalLogFile(file.path);
+      this.registerEvent(this.app.vault.on("modify", onLogFileEvent));
+      this.registerEvent(this.app.vault.on("create", onLogFileEvent));
+      this.registerEvent(this.app.vault.on("delete", onLogFileEvent));
+    });
+
+    this.refreshQuickLogCommands();
+  }
+
+  onunload() {
+    this.reminders?.stop();
   }
 
+  /**
+   * Loads data.json, migrating it to the current schema. Older data is copied aside first;
+   * throws when the data is newer than this version or the copy could not be written.
+   */
   async loadSettings() {
-    const raw = (await this.loadData()) as Partial<LifeDomainStorage> | LifeDomainSettings | null;
+    const raw = (await this.loadData()) as Record<string, unknown> | null;
     if (!raw) {
       this.settings = { ...DEFAULT_SETTINGS };
       this.dataStore = { ...DEFAULT_DATA };
+      this.journal.sync();
       return;
     }
 
-    if ("settings" in raw || "data" in raw) {
-      const storage = raw as Partial<LifeDomainStorage>;
-      this.settings = Object.assign({}, DEFAULT_SETTINGS, storage.settings);
-      this.dataStore = Object.assign({}, DEFAULT_DATA, storage.data);
-    } else {
-      this.settings = Object.assign({}, DEFAULT_SETTINGS, raw as LifeDomainSettings);
-      this.dataStore = { ...DEFAULT_DATA };
+    const { storage, fromVersion } = migrateStorage(raw);
+    this.persistedData = JSON.stringify(raw);
+    if (fromVersion < SCHEMA_VERSION) {
+      try {
+        await writeMigrationBackup(this, raw, fromVersion);
+      } catch (error) {
+        console.error("Life Domain Tracker: could not back up data before migrating", error);
+        throw new Error("Its data needs upgrading, but a backup copy could not be written. Nothing was changed.");
+      }
     }
-
-    this.ensureIds();
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, storage.settings);
+    this.dataStore = Object.assign({}, DEFAULT_DATA, storage.data);
+    if (this.settings.logStorage === "vault") this.dataStore.logs = await this.logStore.load();
+    this.journal.sync();
+    this.journal.purgeTrash();
+    if (fromVersion < SCHEMA_VERSION) await this.saveSettings();
   }
 
   async saveSettings() {
+    this.journal.record();
+    const inVault = this.settings.logStorage === "vault";
+    if (inVault) {
+      try {
+        await this.logStore.save(this.dataStore.logs);
+      } catch (error) {
+        // Unwritten months stay marked as changed, so the next save tries them again.
+        console.error("Life Domain Tracker: failed to write log files", error);
+        new Notice("Could not write log files. See console for details.");
+      }
+    }
     const payload: LifeDomainStorage = {
+      schemaVersion: SCHEMA_VERSION,
       settings: this.settings,
-      data: this.dataStore
+      data: inVault ? { ...this.dataStore, logs: {} } : this.dataStore
     };
+    this.persistedData = JSON.stringify(payload);
     await this.saveData(payload);
+    this.refreshQuickLogCommands();
   }
 
-  addLog(domainId: string, stateId: string, note?: string, ts?: number) {
+  /** Called by Obsidian when data.json changes on disk, e.g. through sync, so the change is merged in. */
+  async onExternalSettingsChange() {
+    const raw = (await this.loadData()) as Record<string, unknown> | null;
+    if (!raw || JSON.stringify(raw) === this.persistedData) return;
+    let remote: LifeDomainStorage;
+    try {
+      remote = migrateStorage(raw).storage;
+    } catch (error) {
+      new Notice(`Life Domain Tracker could not merge synced data. ${(error as Error).message}`, 0);
+      return;
+    }
+    const base = this.persistedData ? migrateStorage(JSON.parse(this.persistedData)).storage : null;
+    // With vault files on either side, data.json carries no logs to merge.
+    const includeLogs = this.settings.logStorage === "data" && remote.settings.logStorage !== "vault";
+    const result = mergeStorage(base, { settings: this.settings, data: this.dataStore }, remote, includeLogs);
+    const boundary = { ...this.settings };
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, result.storage.settings);
+    this.dataStore = result.storage.data;
+    // Logs are filed by the day boundary, so a synced change to it refiles them as `setDayBoundary` does.
+    const refiled = dayBoundaryChanged(boundary, this.settings) ? this.refileLogs() : 0;
+    await this.finishMerge(result, result.conflicts, refiled);
+  }
+
+  /** Merges a month file changed by sync into the logs in memory. */
+  private async mergeExternalLogFile(path: string) {
+    if (this.settings.logStorage !== "vault") return;
+    let change: Awaited<ReturnType<VaultLogStore["readExternalChange"]>>;
+    try {
+      change = await this.logStore.readExternalChange(path);
+    } catch (error) {
+      console.error("Life Domain Tracker: failed to read synced log file", error);
+      new Notice(`Could not merge a synced log file. ${(error as Error).message}`);
+      return;
+    }
+    if (!change) return;
+    const local: LifeDomainDataStore["logs"] = {};
+    for (const dateKey of Object.keys(this.dataStore.logs)) {
+      if (!dateKey.startsWith(change.month)) continue;
+      local[dateKey] = this.dataStore.logs[dateKey];
+      delete this.dataStore.logs[dateKey];
+    }
+    const result = mergeLogs(change.base, local, change.remote);
+    Object.assign(this.dataStore.logs, result.logs);
+    await this.finishMerge(result, []);
+  }
+
+  private async finishMerge(result: LogMergeResult, conflicts: SettingsConflict[], refiled = 0) {
+    const logChanges = result.added + result.updated + result.removed + refiled;
+    // Undo steps hold whole days as they were, so undoing one now could drop the merged entries.
+    if (logChanges) this.journal.clear();
+    else this.journal.sync();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    this.refreshSettingTab();
+    if (logChanges) {
+      new Notice(
+        `Merged synced logs: ${result.added} added, ${result.updated} updated, ${result.removed} removed.`
+      );
+    }
+    if (refiled) new Notice(`Synced day boundary applied. ${describeRekeyResult(refiled)}`);
+    if (conflicts.length) new SyncConflictModal(this.app, this, conflicts).open();
+  }
+
+  /** Resolves sync conflicts in favour of the other device; unresolved ones keep this device's side. */
+  async useRemoteSettings(conflicts: SettingsConflict[]) {
+    this.journal.begin(conflicts.length === 1 ? "Resolve sync conflict" : "Resolve sync conflicts");
+    const boundary = { ...this.settings };
+    for (const conflict of conflicts) applyRemoteSide(this.settings, conflict);
+    if (dayBoundaryChanged(boundary, this.settings)) this.refileLogs();
+    this.journal.end();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    this.refreshSettingTab();
+  }
+
+  /** Re-renders the settings tab if it is open, for when settings were replaced rather than edited there. */
+  refreshSettingTab() {
+    if (this.settingTab?.containerEl.isConnected) this.settingTab.display();
+  }
+
+  /**
+   * Moves every log between data.json and month files in the log folder. Moving to the
+   * vault needs a folder without log files; moving back trashes the files afterwards.
+   */
+  async setLogStorage(target: LifeDomainSettings["logStorage"]): Promise<boolean> {
+    if (target === this.settings.logStorage) return true;
+    try {
+      if (target === "vault") {
+        if (await this.logStore.hasShards()) {
+          new Notice(`${this.logStore.getFolder()} already contains log files. Choose another folder.`);
+          return false;
+        }
+        this.logStore.reset();
+        // Written before data.json drops its copy of the logs.
+        await this.logStore.save(this.dataStore.logs);
+        this.settings.logStorage = "vault";
+        await this.saveSettings();
+      } else {
+        this.settings.logStorage = "data";
+        await this.saveSettings();
+        await this.logStore.removeShards();
+      }
+    } catch (error) {
+      console.error("Life Domain Tracker: failed to move logs", error);
+      new Notice("Moving logs failed. See console for details.");
+      return false;
+    }
+    return true;
+  }
+
+  /** Registers one "Log <domain>: <state>" command per state, re-registering only when names or ids change. */
+  refreshQuickLogCommands() {
+    const signature = JSON.stringify([
+      this.settings.quickLogWithNote,
+      getActiveDomains(this.settings).map((d) => [
+        d.id,
+        d.name,
+        getActiveStates(d).map((s) => [s.id, s.name, s.kind])
+      ])
+    ]);
+    if (signature === this.quickLogSignature) return;
+    this.quickLogSignature = signature;
+
+    for (const id of this.quickLogCommandIds) this.removeCommand(id);
+    this.quickLogCommandIds = [];
+
+    for (const domain of getActiveDomains(this.settings)) {
+      for (const state of getActiveStates(domain)) {
+        const label = `${domain.name || "Unnamed domain"}: ${state.name || "Unnamed state"}`;
+        const id = `quick-log-${domain.id}-${state.id}`;
+        this.addCommand({
+          id,
+          name: `Log ${label}`,
+          callback: () => {
+            if (isDurationState(state)) {
+              const message = this.toggleSession(domain.id, state.id);
+              if (message) new Notice(message);
+              return;
+            }
+            if (isMeasuredState(state)) {
+              new ValuePromptModal(this.app, `Log ${label}`, state, false, (value) => {
+                if (this.addLog(domain.id, state.id, undefined, undefined, value)) new Notice(`Logged ${label}`);
+              }).open();
+              return;
+            }
+            this.addLog(domain.id, state.id);
+            new Notice(`Logged ${label}`);
+          }
+        });
+        this.quickLogCommandIds.push(id);
+
+        if (!this.settings.quickLogWithNote) continue;
+        this.addCommand({
+          id: `${id}-with-note`,
+          name: `Log ${label} with note`,
+          callback: () => {
+            if (isDurationState(state)) {
+              new NotePromptModal(this.app, `Start or stop ${label}`, (note) => {
+                const message = this.toggleSession(domain.id, state.id, note);
+                if (message) new Notice(message);
+              }).open();
+              return;
+            }
+            if (isMeasuredState(state)) {
+              new ValuePromptModal(this.app, `Log ${label}`, state, true, (value, note) => {
+                if (this.addLog(domain.id, state.id, note, undefined, value)) new Notice(`Logged ${label}`);
+              }).open();
+              return;
+            }
+            new NotePromptModal(this.app, `Log ${label}`, (note) => {
+              this.addLog(domain.id, state.id, note);
+              new Notice(`Logged ${label}`);
+            }).open();
+          }
+        });
+        this.quickLogCommandIds.push(`${id}-with-note`);
+      }
+    }
+  }
+
+  /**
+   * Replaces all settings and data with `storage`, as returned by `parseBackup` and `planRestore`.
+   * The undo history is dropped, since it describes the data being replaced, and this device's
+   * Recently deleted list is kept.
+   */
+  async restoreStorage(storage: LifeDomainStorage) {
+    // The backup schedule and log storage describe this device, not the backup.
+    const { lastBackupAt, logStorage, logFolder } = this.settings;
+    const trash = this.dataStore.trash;
+    this.settings = { ...DEFAULT_SETTINGS, ...storage.settings, lastBackupAt, logStorage, logFolder };
+    this.dataStore = Object.assign({}, DEFAULT_DATA, storage.data, { trash });
+    this.journal.clear();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    this.refreshSettingTab();
+  }
+
+  /** Writes a manual backup and reports the outcome. Returns its path, or null when writing failed. */
+  async exportBackup(): Promise<string | null> {
+    try {
+      const path = await writeBackup(this, false);
+      new Notice(`Exported backup to ${path}`);
+      return path;
+    } catch (error) {
+      console.error("Life Domain Tracker: backup failed", error);
+      new Notice("Backup failed. See console for details.");
+      return null;
+    }
+  }
+
+  async runScheduledBackup() {
+    const intervalMs = this.settings.backupIntervalHours * 60 * 60 * 1000;
+    if (intervalMs <= 0) return;
+    if (this.settings.lastBackupAt && Date.now() - this.settings.lastBackupAt < intervalMs) return;
+    try {
+      await writeBackup(this, true);
+      this.settings.lastBackupAt = Date.now();
+      await this.saveSettings();
+    } catch (error) {
+      console.error("Life Domain Tracker: scheduled backup failed", error);
+      new Notice("Scheduled backup failed. See console for details.");
+    }
+  }
+
+  addLog(domainId: string, stateId: string, note?: string, ts?: number, value?: number): DomainLogEntry | null {
     const domain = this.settings.domains.find((d) => d.id === domainId);
     if (!domain) {
       new Notice("Domain not found.");
-      return;
+      return null;
     }
     const state = domain.states.find((s) => s.id === stateId);
     if (!state) {
       new Notice("State not found.");
-      return;
+      return null;
+    }
+    if (domain.archived || state.archived) {
+      new Notice(`${state.name || "This state"} is archived.`);
+      return null;
+    }
+    if (isMeasuredState(state) && (value === undefined || !Number.isFinite(value))) {
+      new Notice(`Enter a value for ${state.name || "this state"}.`);
+      return null;
     }
 
     const tsFinal = ts ?? Date.now();
-    const dateKey = getDateKeyFromTs(tsFinal);
+    const tzOffset = new Date(tsFinal).getTimezoneOffset();
+    const dateKey = getDateKeyFromTs(tsFinal, this.settings, tzOffset);
+    this.journal.begin(`Log ${state.name || "Unnamed state"}`);
+    this.journal.touch(dateKey, domainId);
     if (!this.dataStore.logs[dateKey]) this.dataStore.logs[dateKey] = {};
     if (!this.dataStore.logs[dateKey][domainId]) this.dataStore.logs[dateKey][domainId] = [];
 
-    this.dataStore.logs[dateKey][domainId].push({
+    const entry: DomainLogEntry = {
+      id: generateId(),
       stateId,
-      score: state.score,
+      score: scoreForValue(state, value),
       ts: tsFinal,
       note: note?.trim() || undefined,
-      tzOffset: new Date(tsFinal).getTimezoneOffset()
-    });
+      tzOffset,
+      value: isMeasuredState(state) ? value : undefined
+    };
+    this.dataStore.logs[dateKey][domainId].push(entry);
+    this.journal.end();
 
     void this.saveSettings();
+    this.notifyLogsChanged();
+    return entry;
+  }
+
+  getRunningSession(domainId: string, stateId: string): RunningSession | undefined {
+    return (this.dataStore.runningSessions ?? []).find((s) => s.domainId === domainId && s.stateId === stateId);
+  }
+
+  /** Starts a session for a duration state. Sessions are kept in data.json, so they survive restarts. */
+  startSession(domainId: string, stateId: string, note?: string, ts?: number): RunningSession | null {
+    const domain = this.settings.domains.find((d) => d.id === domainId);
+    const state = domain?.states.find((s) => s.id === stateId);
+    if (!domain || !state) {
+      new Notice("State not found.");
+      return null;
+    }
+    if (domain.archived || state.archived) {
+      new Notice(`${state.name || "This state"} is archived.`);
+      return null;
+    }
+    if (this.getRunningSession(domainId, stateId)) {
+      new Notice(`${state.name || "This state"} is already running.`);
+      return null;
+    }
+    const session: RunningSession = {
+      id: generateId(),
+      domainId,
+      stateId,
+      startTs: ts ?? Date.now(),
+      note: note?.trim() || undefined
+    };
+    this.journal.begin(`Start ${state.name || "Unnamed state"}`);
+    if (!this.dataStore.runningSessions) this.dataStore.runningSessions = [];
+    this.dataStore.runningSessions.push(session);
+    this.journal.end();
+    void this.saveSettings();
+    this.notifyLogsChanged();
+    return session;
+  }
+
+  /** Stops a running session and files it as an entry under its start day. */
+  stopSession(sessionId: string, endTs?: number): DomainLogEntry | null {
+    const session = (this.dataStore.runningSessions ?? []).find((s) => s.id === sessionId);
+    if (!session) {
+      new Notice("Session not found.");
+      return null;
+    }
+    this.journal.begin("Stop session");
+    this.dataStore.runningSessions = this.dataStore.runningSessions!.filter((s) => s.id !== sessionId);
+    const state = this.settings.domains
+      .find((d) => d.id === session.domainId)
+      ?.states.find((s) => s.id === session.stateId);
+    const entry: DomainLogEntry = {
+      id: generateId(),
+      stateId: session.stateId,
+      score: state?.score ?? 0,
+      ts: session.startTs,
+      note: session.note,
+      tzOffset: new Date(session.startTs).getTimezoneOffset(),
+      endTs: Math.max(session.startTs, endTs ?? Date.now())
+    };
+    this.insertEntry(getDateKeyFromTs(entry.ts, this.settings, entry.tzOffset), session.domainId, entry);
+    this.journal.end();
+    void this.saveSettings();
+    this.notifyLogsChanged();
+    return entry;
+  }
+
+  /** Starts the state's session, or stops it when one is running. Returns a message for a notice. */
+  toggleSession(domainId: string, stateId: string, note?: string): string | null {
+    const domain = this.settings.domains.find((d) => d.id === domainId);
+    const label = `${domain?.name || "Unnamed domain"}: ${
+      domain?.states.find((s) => s.id === stateId)?.name || "Unnamed state"
+    }`;
+    const running = this.getRunningSession(domainId, stateId);
+    if (running) {
+      const entry = this.stopSession(running.id);
+      return entry ? `Stopped ${label} after ${formatDuration(entry.endTs! - entry.ts)}` : null;
+    }
+    return this.startSession(domainId, stateId, note) ? `Started ${label}` : null;
+  }
+
+  notifyLogsChanged() {
+    this.events.trigger(LOGS_CHANGED_EVENT);
+  }
+
+  findLog(entryId: string): { dateKey: string; domainId: string; entry: DomainLogEntry } | null {
+    for (const [dateKey, domains] of Object.entries(this.dataStore.logs)) {
+      for (const [domainId, logs] of Object.entries(domains)) {
+        const entry = logs.find((e) => e.id === entryId);
+        if (entry) return { dateKey, domainId, entry };
+      }
+    }
+    return null;
+  }
+
+  async updateLog(
+    entryId: string,
+    changes: { stateId?: string; note?: string; ts?: number; value?: number; endTs?: number }
+  ): Promise<boolean> {
+    const found = this.findLog(entryId);
+    const domain = found && this.settings.domains.find((d) => d.id === found.domainId);
+    if (!found || !domain) {
+      new Notice("Log entry not found.");
+      return false;
+    }
+    const { dateKey, domainId, entry } = found;
+    const newState = changes.stateId !== undefined && domain.states.find((s) => s.id === changes.stateId);
+    if (changes.stateId !== undefined && !newState) {
+      new Notice("State not found.");
+      return false;
+    }
+
+    this.journal.begin("Edit log");
+    this.journal.touch(dateKey, domainId);
+    if (newState) entry.stateId = newState.id;
+    const state = domain.states.find((s) => s.id === entry.stateId);
+    if (changes.value !== undefined) entry.value = changes.value;
+    if (state && !isMeasuredState(state)) entry.value = undefined;
+    if (state && (changes.stateId !== undefined || changes.value !== undefined)) {
+      entry.score = scoreForValue(state, entry.value);
+    }
+    if (changes.note !== undefined) {
+      entry.note = changes.note.trim() || undefined;
+    }
+    if (changes.endTs !== undefined) {
+      entry.endTs = changes.endTs;
+    }
+    if (changes.ts !== undefined && changes.ts !== entry.ts) {
+      entry.ts = changes.ts;
+      entry.tzOffset = new Date(changes.ts).getTimezoneOffset();
+      this.removeEntry(dateKey, domainId, entry);
+      this.insertEntry(getDateKeyFromTs(changes.ts, this.settings, entry.tzOffset), domainId, entry);
+    }
+    this.journal.end();
+
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return true;
+  }
+
+  async deleteLogsByIds(entryIds: string[]): Promise<number> {
+    let removed = 0;
+    this.journal.begin(entryIds.length === 1 ? "Delete log" : "Delete logs");
+    for (const entryId of entryIds) {
+      const found = this.findLog(entryId);
+      if (!found) continue;
+      this.removeEntry(found.dateKey, found.domainId, found.entry);
+      removed++;
+    }
+    this.journal.end();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return removed;
+  }
+
+  /**
+   * Applies the same change to many entries. Moving to another domain keeps the
+   * state when the target has a state with the same name, unless `stateId` is given.
+   */
+  async bulkUpdateLogs(
+    entryIds: string[],
+    changes: { dateKey?: string; domainId?: string; stateId?: string }
+  ): Promise<{ updated: number; skipped: number }> {
+    const result = { updated: 0, skipped: 0 };
+    this.journal.begin(changes.dateKey ? "Move logs to date" : "Move logs");
+    for (const entryId of entryIds) {
+      const found = this.findLog(entryId);
+      const sourceDomain = found && this.settings.domains.find((d) => d.id === found.domainId);
+      const targetDomain = this.settings.domains.find((d) => d.id === (changes.domainId ?? found?.domainId));
+      if (!found || !sourceDomain || !targetDomain) {
+        result.skipped++;
+        continue;
+      }
+      const { dateKey, domainId, entry } = found;
+
+      const movesDomain = targetDomain.id !== domainId;
+      let state: LifeDomainState | undefined;
+      if (changes.stateId) {
+        state = targetDomain.states.find((s) => s.id === changes.stateId);
+      } else if (movesDomain) {
+        const current = sourceDomain.states.find((s) => s.id === entry.stateId);
+        state = current ? findStateByName(targetDomain, current.name) : undefined;
+      }
+      if ((changes.stateId || movesDomain) && !state) {
+        result.skipped++;
+        continue;
+      }
+
+      let ts = entry.ts;
+      if (changes.dateKey && changes.dateKey !== dateKey) {
+        // Shifted by whole days in the zone the entry is dated in, keeping its time of day.
+        const days = daysBetweenKeys(dateKey, changes.dateKey);
+        if (this.settings.useLoggedTimeZone && entry.tzOffset !== undefined) {
+          ts = entry.ts + days * 24 * 60 * 60 * 1000;
+        } else {
+          const time = new Date(entry.ts);
+          time.setDate(time.getDate() + days);
+          ts = time.getTime();
+        }
+      }
+
+      this.removeEntry(dateKey, domainId, entry);
+      if (state) {
+        entry.stateId = state.id;
+        if (!isMeasuredState(state)) entry.value = undefined;
+        entry.score = scoreForValue(state, entry.value);
+      }
+      entry.ts = ts;
+      this.insertEntry(getDateKeyFromTs(entry.ts, this.settings, entry.tzOffset), targetDomain.id, entry);
+      result.updated++;
+    }
+    this.journal.end();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return result;
+  }
+
+  /** Puts trashed entries back under their original day. Entries whose domain is gone are skipped. */
+  async restoreDeletedLogs(entryIds: string[]): Promise<number> {
+    const ids = new Set(entryIds);
+    let restored = 0;
+    this.journal.begin(entryIds.length === 1 ? "Restore deleted log" : "Restore deleted logs");
+    for (const item of this.dataStore.trash ?? []) {
+      if (!ids.has(item.entry.id) || !this.settings.domains.some((d) => d.id === item.domainId)) continue;
+      if (this.findLog(item.entry.id)) continue;
+      const dateKey = getDateKeyFromTs(item.entry.ts, this.settings, item.entry.tzOffset);
+      this.insertEntry(dateKey, item.domainId, { ...item.entry });
+      restored++;
+    }
+    this.journal.end();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return restored;
+  }
+
+  /**
+   * Files every entry under the day it falls on with the current day start and time zone
+   * settings. Run after either changes. Returns the number of entries that moved.
+   */
+  async rekeyLogs(): Promise<number> {
+    this.journal.begin("Rebuild log dates");
+    const moved = this.refileLogs();
+    this.journal.end();
+    await this.saveSettings();
+    if (moved) this.notifyLogsChanged();
+    return moved;
+  }
+
+  /** Moves every entry to the day its time falls on under the current settings, without saving. */
+  private refileLogs(): number {
+    let moved = 0;
+    for (const [dateKey, domains] of Object.entries(this.dataStore.logs)) {
+      for (const [domainId, entries] of Object.entries(domains)) {
+        for (const entry of entries.slice()) {
+          const target = getDateKeyFromTs(entry.ts, this.settings, entry.tzOffset);
+          if (target === dateKey) continue;
+          this.removeEntry(dateKey, domainId, entry);
+          this.insertEntry(target, domainId, entry);
+          moved++;
+        }
+      }
+    }
+    return moved;
+  }
+
+  /** Changes the day start or time zone setting and refiles the logs to match, as one undoable step. */
+  async setDayBoundary(changes: Partial<DayBoundarySettings>): Promise<number> {
+    this.journal.begin("Change day boundary");
+    Object.assign(this.settings, changes);
+    const moved = await this.rekeyLogs();
+    this.journal.end();
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return moved;
+  }
+
+  /** Number of stored entries for a domain, or for one of its states. */
+  countLogs(domainId: string, stateId?: string): number {
+    let count = 0;
+    for (const domains of Object.values(this.dataStore.logs)) {
+      for (const entry of domains[domainId] ?? []) {
+        if (!stateId || entry.stateId === stateId) count++;
+      }
+    }
+    return count;
+  }
+
+  /**
+   * Removes a domain, or one state when `stateId` is given. Its logs are purged, or moved
+   * to `reassignTo` when set. Returns the number of entries purged or moved.
+   */
+  async deleteDomainOrState(
+    domainId: string,
+    stateId?: string,
+    reassignTo?: { domainId: string; stateId: string }
+  ): Promise<number> {
+    const domain = this.settings.domains.find((d) => d.id === domainId);
+    if (!domain) {
+      new Notice("Domain not found.");
+      return 0;
+    }
+    const matches = (entry: DomainLogEntry) => !stateId || entry.stateId === stateId;
+    this.journal.begin(stateId ? "Delete state" : "Delete domain");
+
+    let affected = 0;
+    if (reassignTo) {
+      const ids: string[] = [];
+      for (const domains of Object.values(this.dataStore.logs)) {
+        for (const entry of domains[domainId] ?? []) if (matches(entry)) ids.push(entry.id);
+      }
+      affected = (await this.bulkUpdateLogs(ids, reassignTo)).updated;
+    } else {
+      for (const [dateKey, domains] of Object.entries(this.dataStore.logs)) {
+        for (const entry of (domains[domainId] ?? []).filter(matches)) {
+          this.removeEntry(dateKey, domainId, entry);
+          affected++;
+        }
+      }
+    }
+
+    this.dataStore.runningSessions = this.dataStore.runningSessions?.filter(
+      (s) => s.domainId !== domainId || (stateId !== undefined && s.stateId !== stateId)
+    );
+    if (stateId) {
+      domain.states = domain.states.filter((s) => s.id !== stateId);
+      domain.goals = domain.goals?.filter((g) => g.stateId !== stateId);
+      domain.reminders = domain.reminders?.filter((r) => r.stateId !== stateId);
+    } else {
+      this.settings.domains = this.settings.domains.filter((d) => d.id !== domainId);
+    }
+    this.journal.end();
+
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return affected;
+  }
+
+  private insertEntry(dateKey: string, domainId: string, entry: DomainLogEntry) {
+    this.journal.touch(dateKey, domainId);
+    if (!this.dataStore.logs[dateKey]) this.dataStore.logs[dateKey] = {};
+    if (!this.dataStore.logs[dateKey][domainId]) this.dataStore.logs[dateKey][domainId] = [];
+    this.dataStore.logs[dateKey][domainId].push(entry);
+    this.dataStore.logs[dateKey][domainId].sort((a, b) => a.ts - b.ts);
+  }
+
+  private removeEntry(dateKey: string, domainId: string, entry: DomainLogEntry) {
+    this.journal.touch(dateKey, domainId);
+    const dayLogs = this.dataStore.logs[dateKey]?.[domainId];
+    if (!dayLogs) return;
+    const index = dayLogs.indexOf(entry);
+    if (index >= 0) dayLogs.splice(index, 1);
+    if (!dayLogs.length) delete this.dataStore.logs[dateKey][domainId];
+    if (!Object.keys(this.dataStore.logs[dateKey]).length) delete this.dataStore.logs[dateKey];
   }
 
   getLogsForDate(dateKey: string, domainId: string): DomainLogEntry[] {
@@ -149,7 +1020,9 @@ export default class LifeDomainTrackerPlugin extends Plugin {
     }
 
     const rows: string[] = [];
-    rows.push("date,time,state_name,score,note");
+    // `date` and `time` are the device's calendar date and clock time, which is what the importer reads.
+    // `day_key` is the day the log counts towards, which differs before the day start hour.
+    rows.push("date,time,state_name,score,note,value,day_key");
 
     const stateMap = new Map(domain.states.map((s) => [s.id, s] as const));
     const dates = Object.keys(this.dataStore.logs).sort();
@@ -158,10 +1031,12 @@ export default class LifeDomainTrackerPlugin extends Plugin {
       for (const entry of logs) {
         const state = stateMap.get(entry.stateId);
         const ts = new Date(entry.ts);
+        const date = getTodayKey(ts);
         const time = `${pad2(ts.getHours())}:${pad2(ts.getMinutes())}`;
         const name = state?.name ?? "unknown";
         const note = entry.note ?? "";
-        rows.push(`${dateKey},${time},${escapeCsv(name)},${entry.score},${escapeCsv(note)}`);
+        const value = entry.value ?? "";
+        rows.push(`${date},${time},${escapeCsv(name)},${entry.score},${escapeCsv(note)},${value},${dateKey}`);
       }
     }
 
@@ -171,30 +1046,58 @@ export default class LifeDomainTrackerPlugin extends Plugin {
     return filePath;
   }
 
-  private ensureIds() {
-    let changed = false;
-    for (const domain of this.settings.domains) {
-      if (!domain.id) {
-        domain.id = generateId();
-        changed = true;
-      }
-      if (!domain.aggregationType) {
-        domain.aggregationType = "sum";
-        changed = true;
+  async importLogs(
+    domainId: string,
+    rows: ImportLogRow[],
+    createMissingStates: boolean
+  ): Promise<{ imported: number; createdStates: number; skipped: number }> {
+    const result = { imported: 0, createdStates: 0, skipped: 0 };
+    const domain = this.settings.domains.find((d) => d.id === domainId);
+    if (!domain) {
+      new Notice("Domain not found.");
+      return result;
+    }
+    this.journal.begin("Import logs");
+
+    for (const row of rows) {
+      let state = findStateByName(domain, row.stateName);
+      if (!state && createMissingStates && row.stateName.trim()) {
+        state = { id: generateId(), name: row.stateName.trim(), score: row.score ?? getScoreScale(domain).neutral };
+        domain.states.push(state);
+        result.createdStates++;
       }
-      for (const state of domain.states) {
-        const legacyState = state as unknown as { label?: string; value?: string };
-        if (!state.id) {
-          state.id = generateId();
-          changed = true;
-        }
-        if (!state.name && legacyState.label) {
-          state.name = legacyState.label;
-          changed = true;
-        }
+      // The same rules as `addLog`: nothing goes into archived domains or states, and measured states need a value.
+      const value = state && isMeasuredState(state) ? row.value : undefined;
+      if (!state || domain.archived || state.archived || (isMeasuredState(state) && value === undefined)) {
+        result.skipped++;
+        continue;
       }
+
+      const tzOffset = new Date(row.ts).getTimezoneOffset();
+      const dateKey = getDateKeyFromTs(row.ts, this.settings, tzOffset);
+      this.journal.touch(dateKey, domainId);
+      if (!this.dataStore.logs[dateKey]) this.dataStore.logs[dateKey] = {};
+      if (!this.dataStore.logs[dateKey][domainId]) this.dataStore.logs[dateKey][domainId] = [];
+      this.dataStore.logs[dateKey][domainId].push({
+        id: generateId(),
+        stateId: state.id,
+        score: row.score ?? scoreForValue(state, value),
+        ts: row.ts,
+        note: row.note?.trim() || undefined,
+        tzOffset,
+        value
+      });
+      result.imported++;
+    }
+
+    for (const dateKey of Object.keys(this.dataStore.logs)) {
+      this.dataStore.logs[dateKey][domainId]?.sort((a, b) => a.ts - b.ts);
     }
-    if (changed) void this.saveSettings();
+    this.journal.end();
+
+    await this.saveSettings();
+    this.notifyLogsChanged();
+    return result;
   }
 
   async openPerformanceView() {
@@ -213,12 +1116,14 @@ export default class LifeDomainTrackerPlugin extends Plugin {
     dateKey: string,
     domainId: string,
     stateId?: string,
-    entryIndex?: number
+    entryId?: string
   ) {
     const dayLogs = this.dataStore.logs[dateKey]?.[domainId];
     if (!dayLogs) return;
-    if (entryIndex !== undefined) {
-      dayLogs.splice(entryIndex, 1);
+    this.journal.begin(entryId !== undefined ? "Delete log" : "Delete logs");
+    this.journal.touch(dateKey, domainId);
+    if (entryId !== undefined) {
+      this.dataStore.logs[dateKey][domainId] = dayLogs.filter((e) => e.id !== entryId);
     } else if (stateId) {
       this.dataStore.logs[dateKey][domainId] = dayLogs.filter((e) => e.stateId !== stateId);
     } else {
@@ -227,12 +1132,18 @@ export default class LifeDomainTrackerPlugin extends Plugin {
     if (this.dataStore.logs[dateKey] && Object.keys(this.dataStore.logs[dateKey]).length === 0) {
       delete this.dataStore.logs[dateKey];
     }
+    this.journal.end();
     await this.saveSettings();
+    this.notifyLogsChanged();
   }
 
   async deleteAllForDate(dateKey: string) {
+    this.journal.begin(`Delete logs for ${dateKey}`);
+    for (const domainId of Object.keys(this.dataStore.logs[dateKey] ?? {})) this.journal.touch(dateKey, domainId);
     delete this.dataStore.logs[dateKey];
+    this.journal.end();
     await this.saveSettings();
+    this.notifyLogsChanged();
   }
 }
 
@@ -240,6 +1151,65 @@ export function normalizeKey(name: string): string {
   return name.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
 }
 
+export function findStateByName(domain: LifeDomain, name: string): LifeDomainState | undefined {
+  const key = name.trim().toLowerCase();
+  if (!key) return undefined;
+  return domain.states.find((s) => s.name.trim().toLowerCase() === key);
+}
+
+export function getActiveDomains(settings: LifeDomainSettings): LifeDomain[] {
+  return settings.domains.filter((d) => !d.archived);
+}
+
+export function getActiveStates(domain: LifeDomain): LifeDomainState[] {
+  return domain.states.filter((s) => !s.archived);
+}
+
+export function isMeasuredState(state: LifeDomainState): boolean {
+  return state.kind === "measured";
+}
+
+/** Score for a log of `state`: the first range containing `value`, else the state's own score. */
+export function scoreForValue(state: LifeDomainState, value?: number): number {
+  if (!isMeasuredState(state) || value === undefined) return state.score;
+  const range = (state.scoreRanges ?? []).find(
+    (r) => (r.min === undefined || value >= r.min) && (r.max === undefined || value < r.max)
+  );
+  return range ? range.score : state.score;
+}
+
+export function isDurationState(state: LifeDomainState): boolean {
+  return state.kind === "duration";
+}
+
+/** Formats milliseconds as e.g. `45m` or `2h 05m`. */
+export function formatDuration(ms: number): string {
+  const minutes = Math.max(0, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h ${pad2(minutes % 60)}m`;
+}
+
+export function describeStateScore(state: LifeDomainState): string {
+  if (isDurationState(state)) return `Session • Score ${state.score}`;
+  if (!isMeasuredState(state)) return `Score ${state.score}`;
+  return state.unit ? `Measured in ${state.unit}` : "Measured";
+}
+
+export function formatMeasurement(state: LifeDomainState, value: number): string {
+  return state.unit ? `${value} ${state.unit}` : String(value);
+}
+
+export function getScoreScale(domain: LifeDomain): LifeDomainScale {
+  return domain.scale ?? DEFAULT_SCORE_SCALE;
+}
+
+export function classifyScore(domain: LifeDomain, score: number): ScoreKind {
+  const { neutral } = getScoreScale(domain);
+  if (score > neutral) return "good";
+  if (score < neutral) return "bad";
+  return "neutral";
+}
+
 export function getTodayKey(date: Date = new Date()): string {
   const y = date.getFullYear();
   const m = pad2(date.getMonth() + 1);
@@ -247,23 +1217,95 @@ export function getTodayKey(date: Date = new Date()): string {
   return `${y}-${m}-${d}`;
 }
 
-export function getDateKeyFromTs(ts: number): string {
-  const date = new Date(ts);
-  const y = date.getFullYear();
-  const m = pad2(date.getMonth() + 1);
-  const d = pad2(date.getDate());
+/** Local midnight of a date key. */
+export function dateFromKey(dateKey: string): Date {
+  const [y, m, d] = dateKey.split("-").map((v) => Number(v));
+  return new Date(y, m - 1, d);
+}
+
+export type DayBoundarySettings = Pick<LifeDomainSettings, "dayStartHour" | "useLoggedTimeZone">;
+
+/**
+ * Wall-clock time of `ts` in the time zone it was logged in (`tzOffset`), or the device's
+ * when that is unknown or `useLoggedTimeZone` is off. The time is held in the UTC fields.
+ */
+export function getWallClock(ts: number, settings: DayBoundarySettings, tzOffset?: number): Date {
+  const offset = settings.useLoggedTimeZone && tzOffset !== undefined ? tzOffset : new Date(ts).getTimezoneOffset();
+  return new Date(ts - offset * 60 * 1000);
+}
+
+/** Date key of the day `ts` counts towards, where days start at `dayStartHour`. */
+export function getDateKeyFromTs(ts: number, settings: DayBoundarySettings, tzOffset?: number): string {
+  const date = new Date(getWallClock(ts, settings, tzOffset).getTime() - (settings.dayStartHour || 0) * 60 * 60 * 1000);
+  const y = date.getUTCFullYear();
+  const m = pad2(date.getUTCMonth() + 1);
+  const d = pad2(date.getUTCDate());
   return `${y}-${m}-${d}`;
 }
 
-function pad2(value: number): string {
-  return value.toString().padStart(2, "0");
+function dayBoundaryChanged(before: DayBoundarySettings, after: DayBoundarySettings): boolean {
+  return before.dayStartHour !== after.dayStartHour || before.useLoggedTimeZone !== after.useLoggedTimeZone;
+}
+
+export function describeRekeyResult(moved: number): string {
+  if (!moved) return "Every log is already on the right day.";
+  return `Moved ${moved} log${moved === 1 ? "" : "s"} to a different day.`;
 }
 
-function generateId(): string {
-  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+/** Date key of the day in progress, which until `dayStartHour` is still yesterday. */
+export function getCurrentDateKey(settings: DayBoundarySettings): string {
+  return getDateKeyFromTs(Date.now(), settings);
+}
+
+function daysBetweenKeys(from: string, to: string): number {
+  const toUtc = (key: string) => {
+    const [y, m, d] = key.split("-").map((v) => Number(v));
+    return Date.UTC(y, m - 1, d);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / (24 * 60 * 60 * 1000));
+}
+
+function pad2(value: number): string {
+  return value.toString().padStart(2, "0");
 }
 
 function escapeCsv(value: string): string {
   if (/[",\n]/.test(value)) return `"${value.replace(/"/g, '""')}"`;
   return value;
 }
+
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      field = "";
+      if (row.some((v) => v.trim())) rows.push(row);
+      row = [];
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  if (row.some((v) => v.trim())) rows.push(row);
+  return rows;
+}
@@ -0,0 +1,109 @@
+// No runtime imports from Obsidian or the plugin, so migrations can be checked outside the app (`npm test`).
+import type LifeDomainTrackerPlugin from "./main";
+import type { LifeDomainStorage } from "./main";
+import { generateId } from "./ids";
+
+/** Bump together with a new entry in `MIGRATIONS` whenever the stored shape changes. */
+export const SCHEMA_VERSION = 2;
+
+type RawStorage = Record<string, unknown>;
+
+interface Migration {
+  /** Version the data has after this migration runs. */
+  version: number;
+  migrate: (raw: RawStorage) => RawStorage;
+}
+
+/** Schema 0: the settings object saved directly as data.json, from before logs were stored. */
+interface LegacyFlatSettings {
+  domains?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Schema 1: `{ settings, data }` without a version. Domains could lack an id or an
+ * aggregation type, states an id or a `name` (older ones had `label`), and log entries an id.
+ */
+interface LegacySplitStorage {
+  settings?: { domains?: LegacyDomain[]; [key: string]: unknown };
+  data?: { logs?: Record<string, Record<string, { id?: string }[]>>; [key: string]: unknown };
+}
+
+interface LegacyDomain {
+  id?: string;
+  aggregationType?: string;
+  states?: { id?: string; name?: string; label?: string }[];
+}
+
+/** Ordered by version. Each one only has to handle the shape its predecessor left behind. */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    migrate: (raw) => ({ settings: raw as LegacyFlatSettings, data: { logs: {} } })
+  },
+  {
+    version: 2,
+    migrate: (raw) => {
+      const storage = raw as LegacySplitStorage;
+      const settings = storage.settings ?? {};
+      const data = storage.data ?? {};
+      if (!Array.isArray(settings.domains)) settings.domains = [];
+      if (!data.logs || typeof data.logs !== "object") data.logs = {};
+      for (const domain of settings.domains) {
+        if (!domain.id) domain.id = generateId();
+        if (!domain.aggregationType) domain.aggregationType = "sum";
+        if (!Array.isArray(domain.states)) domain.states = [];
+        for (const state of domain.states) {
+          if (!state.id) state.id = generateId();
+          if (!state.name && state.label) state.name = state.label;
+          delete state.label;
+        }
+      }
+      for (const domains of Object.values(data.logs)) {
+        for (const logs of Object.values(domains)) {
+          for (const entry of logs) if (!entry.id) entry.id = generateId();
+        }
+      }
+      return { ...storage, settings, data };
+    }
+  }
+];
+
+/** Version of stored data; data from before versioning is recognised by its shape. */
+export function detectSchemaVersion(raw: RawStorage): number {
+  if (typeof raw.schemaVersion === "number") return raw.schemaVersion;
+  return "settings" in raw || "data" in raw ? 1 : 0;
+}
+
+/**
+ * Runs every migration newer than the data's version on a copy of `raw`. Throws, without
+ * touching `raw`, when the data was written by a newer version of the plugin.
+ */
+export function migrateStorage(raw: RawStorage): { storage: LifeDomainStorage; fromVersion: number } {
+  const fromVersion = detectSchemaVersion(raw);
+  if (fromVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Its data was saved by a newer version of the plugin (schema ${fromVersion}, this version reads up to ` +
+        `${SCHEMA_VERSION}). Update the plugin; your data has not been changed.`
+    );
+  }
+  let current: RawStorage = JSON.parse(JSON.stringify(raw));
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    current = migration.migrate(current);
+    current.schemaVersion = migration.version;
+  }
+  return { storage: current as unknown as LifeDomainStorage, fromVersion };
+}
+
+/** Copies data.json as it was before migrating, next to it in the plugin folder. Returns the copy's path. */
+export async function writeMigrationBackup(
+  plugin: LifeDomainTrackerPlugin,
+  raw: RawStorage,
+  fromVersion: number
+): Promise<string> {
+  const dir = plugin.manifest.dir ?? `${plugin.app.vault.configDir}/plugins/${plugin.manifest.id}`;
+  const path = `${dir}/data.schema-${fromVersion}.${Date.now()}.json`;
+  await plugin.app.vault.adapter.write(path, JSON.stringify(raw, null, 2));
+  return path;
+}
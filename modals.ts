@@ -1,5 +1,27 @@
-import { Modal, Notice } from "obsidian";
-import LifeDomainTrackerPlugin, { LifeDomain, LifeDomainState, getTodayKey } from "./main";
+import { Modal, Notice, TFile } from "obsidian";
+import LifeDomainTrackerPlugin, {
+  ImportLogRow,
+  LifeDomain,
+  LifeDomainState,
+  classifyScore,
+  describeStateScore,
+  findStateByName,
+  formatMeasurement,
+  getActiveDomains,
+  getActiveStates,
+  isDurationState,
+  isMeasuredState,
+  getDateKeyFromTs,
+  getCurrentDateKey,
+  parseCsv
+} from "./main";
+import { RestoreMode, describeRestoreSummary, parseBackup, planRestore } from "./backup";
+import { renderGoalStatus } from "./goals";
+import { buildDomainAggregateIndex } from "./view";
+import { getStateColor, renderItemLabel, renderTagBadges } from "./appearance";
+import { JOURNAL_STEP_ENTRY_LIMIT, TRASH_RETENTION_DAYS } from "./journal";
+import { SettingsConflict, describeConflictSide } from "./sync";
+import { ReviewPeriodKind, getReviewNotePath, resolveReviewPeriod, writeReviewNote } from "./review";
 
 export class LogDomainModal extends Modal {
   plugin: LifeDomainTrackerPlugin;
@@ -8,10 +30,12 @@ export class LogDomainModal extends Modal {
   summaryEl: HTMLElement | null = null;
   listEl: HTMLElement | null = null;
   noteInputEl: HTMLTextAreaElement | null = null;
+  initialDomainId: string | null;
 
-  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin, initialDomainId?: string) {
     super(app);
     this.plugin = plugin;
+    this.initialDomainId = initialDomainId ?? null;
   }
 
   onOpen() {
@@ -21,7 +45,7 @@ export class LogDomainModal extends Modal {
 
     contentEl.createEl("h3", { text: "Log Domain State" });
 
-    const domains = this.plugin.settings.domains;
+    const domains = getActiveDomains(this.plugin.settings);
     if (!domains.length) {
       contentEl.createEl("p", { text: "No domains configured. Add domains in settings." });
       return;
@@ -48,25 +72,27 @@ export class LogDomainModal extends Modal {
       this.renderDomain();
     });
 
-    this.domain = domains[0];
+    this.domain = domains.find((d) => d.id === this.initialDomainId) ?? domains[0];
+    this.domainSelectEl.value = this.domain.id;
     this.renderDomain();
   }
 
   private renderDomain() {
     if (!this.domain || !this.summaryEl || !this.listEl) return;
-    const dateKey = getTodayKey();
+    const dateKey = getCurrentDateKey(this.plugin.settings);
     const logs = this.plugin.getLogsForDate(dateKey, this.domain.id);
     const counts = countByState(logs);
 
     this.summaryEl.empty();
     const total = logs.length;
-    const loggedStates = this.domain.states.filter((s) => counts.get(s.id));
-    const missingStates = this.domain.states.filter((s) => !counts.get(s.id));
+    const states = getActiveStates(this.domain);
+    const loggedStates = states.filter((s) => counts.get(s.id));
+    const missingStates = states.filter((s) => !counts.get(s.id));
 
     const header = this.summaryEl.createDiv({ cls: "life-domain-summary-row" });
     header.createEl("div", { text: `Today: ${dateKey}` });
     header.createEl("div", { text: `Logs: ${total}` });
-    header.createEl("div", { text: `Logged: ${loggedStates.length} / ${this.domain.states.length}` });
+    header.createEl("div", { text: `Logged: ${loggedStates.length} / ${states.length}` });
 
     const chips = this.summaryEl.createDiv({ cls: "life-domain-chips" });
     if (missingStates.length) {
@@ -81,8 +107,12 @@ export class LogDomainModal extends Modal {
       chips.createEl("span", { text: "All states logged today", cls: "life-domain-chip" });
     }
 
+    if (this.domain.goals?.length) {
+      renderGoalStatus(this.summaryEl, this.plugin, this.domain, buildDomainAggregateIndex(this.plugin));
+    }
+
     this.listEl.empty();
-    for (const state of this.domain.states) {
+    for (const state of states) {
       this.listEl.appendChild(this.renderStateRow(state, counts.get(state.id) ?? 0));
     }
   }
@@ -95,49 +125,174 @@ export class LogDomainModal extends Modal {
     meta.classList.add("life-domain-state-meta");
 
     const title = document.createElement("div");
-    title.textContent = state.name || "Unnamed state";
+    if (this.domain) renderItemLabel(title, state, getStateColor(state), "Unnamed state");
+    else title.textContent = state.name || "Unnamed state";
     meta.appendChild(title);
 
     const badges = document.createElement("div");
     badges.classList.add("life-domain-badges");
     const kindBadge = document.createElement("span");
     kindBadge.classList.add("life-domain-badge");
-    kindBadge.textContent = state.score > 0 ? "GOOD" : state.score < 0 ? "BAD" : "NEUTRAL";
+    const kind = this.domain && !isMeasuredState(state) ? classifyScore(this.domain, state.score) : "neutral";
+    kindBadge.textContent = isMeasuredState(state) ? "MEASURED" : kind.toUpperCase();
     badges.appendChild(kindBadge);
     const scoreBadge = document.createElement("span");
     scoreBadge.classList.add("life-domain-badge");
-    scoreBadge.textContent = `Score ${state.score}`;
+    scoreBadge.textContent = describeStateScore(state);
     badges.appendChild(scoreBadge);
     const countBadge = document.createElement("span");
     countBadge.classList.add("life-domain-badge");
     countBadge.textContent = `Logged ${count}`;
     badges.appendChild(countBadge);
+    renderTagBadges(badges, state.tags);
     meta.appendChild(badges);
 
     const actions = document.createElement("div");
     actions.classList.add("life-domain-state-actions");
 
     const btn = document.createElement("button");
-    btn.textContent = "Log";
+    const running = this.domain ? this.plugin.getRunningSession(this.domain.id, state.id) : undefined;
+    btn.textContent = isDurationState(state) ? (running ? "Stop" : "Start") : "Log";
     btn.addEventListener("click", () => {
       const note = this.noteInputEl?.value ?? "";
-      this.plugin.addLog(this.domain?.id ?? "", state.id, note);
-      new Notice(`Logged ${this.domain?.name}: ${state.name}`);
-      if (this.noteInputEl) this.noteInputEl.value = "";
-      this.renderDomain();
+      if (isDurationState(state)) {
+        const message = this.plugin.toggleSession(this.domain?.id ?? "", state.id, note);
+        if (!message) return;
+        new Notice(message);
+        if (this.noteInputEl) this.noteInputEl.value = "";
+        this.renderDomain();
+        return;
+      }
+      const log = (value?: number) => {
+        if (!this.plugin.addLog(this.domain?.id ?? "", state.id, note, undefined, value)) return;
+        new Notice(`Logged ${this.domain?.name}: ${state.name}`);
+        if (this.noteInputEl) this.noteInputEl.value = "";
+        this.renderDomain();
+      };
+      if (isMeasuredState(state)) {
+        const title = `Log ${state.name || "Unnamed state"}`;
+        new ValuePromptModal(this.app, title, state, false, (value) => log(value)).open();
+      } else {
+        log();
+      }
     });
     actions.appendChild(btn);
 
     row.appendChild(meta);
     row.appendChild(actions);
 
-    if (state.score > 0) row.classList.add("life-domain-good");
-    if (state.score < 0) row.classList.add("life-domain-bad");
+    if (kind === "good") row.classList.add("life-domain-good");
+    if (kind === "bad") row.classList.add("life-domain-bad");
 
     return row;
   }
 }
 
+export class NotePromptModal extends Modal {
+  title: string;
+  onSubmit: (note: string) => void;
+
+  constructor(app: LifeDomainTrackerPlugin["app"], title: string, onSubmit: (note: string) => void) {
+    super(app);
+    this.title = title;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: this.title });
+
+    const noteWrap = contentEl.createDiv({ cls: "life-domain-note" });
+    noteWrap.createEl("label", { text: "Contextual note" });
+    const noteInput = noteWrap.createEl("textarea");
+    noteInput.setAttr("rows", "3");
+    noteInput.setAttr("placeholder", "Add a short note for this log...");
+
+    const submit = () => {
+      this.onSubmit(noteInput.value);
+      this.close();
+    };
+    noteInput.addEventListener("keydown", (evt) => {
+      if (evt.key === "Enter" && !evt.shiftKey) {
+        evt.preventDefault();
+        submit();
+      }
+    });
+
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    const logBtn = actions.createEl("button", { text: "Log", cls: "mod-cta" });
+    logBtn.addEventListener("click", submit);
+    noteInput.focus();
+  }
+}
+
+/** Asks for the number to log for a measured state, optionally with a note. */
+export class ValuePromptModal extends Modal {
+  title: string;
+  state: LifeDomainState;
+  askNote: boolean;
+  onSubmit: (value: number, note: string) => void;
+
+  constructor(
+    app: LifeDomainTrackerPlugin["app"],
+    title: string,
+    state: LifeDomainState,
+    askNote: boolean,
+    onSubmit: (value: number, note: string) => void
+  ) {
+    super(app);
+    this.title = title;
+    this.state = state;
+    this.askNote = askNote;
+    this.onSubmit = onSubmit;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: this.title });
+
+    const valueWrap = contentEl.createDiv({ cls: "life-domain-note" });
+    valueWrap.createEl("label", { text: this.state.unit ? `Value (${this.state.unit})` : "Value" });
+    const valueInput = valueWrap.createEl("input");
+    valueInput.type = "number";
+    valueInput.step = "any";
+
+    let noteInput: HTMLTextAreaElement | null = null;
+    if (this.askNote) {
+      const noteWrap = contentEl.createDiv({ cls: "life-domain-note" });
+      noteWrap.createEl("label", { text: "Contextual note" });
+      noteInput = noteWrap.createEl("textarea");
+      noteInput.setAttr("rows", "3");
+      noteInput.setAttr("placeholder", "Add a short note for this log...");
+    }
+
+    const submit = () => {
+      const value = parseFloat(valueInput.value);
+      if (!Number.isFinite(value)) {
+        new Notice("Enter a number.");
+        return;
+      }
+      this.onSubmit(value, noteInput?.value ?? "");
+      this.close();
+    };
+    valueInput.addEventListener("keydown", (evt) => {
+      if (evt.key === "Enter") {
+        evt.preventDefault();
+        submit();
+      }
+    });
+
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    const logBtn = actions.createEl("button", { text: "Log", cls: "mod-cta" });
+    logBtn.addEventListener("click", submit);
+    valueInput.focus();
+  }
+}
+
 function countByState(logs: { stateId: string }[]): Map<string, number> {
   const map = new Map<string, number>();
   for (const entry of logs) {
@@ -152,8 +307,9 @@ export class DeleteLogsModal extends Modal {
   domainSelectEl: HTMLSelectElement | null = null;
   stateSelectEl: HTMLSelectElement | null = null;
   listEl: HTMLElement | null = null;
+  bulkEl: HTMLElement | null = null;
   undoBtn: HTMLButtonElement | null = null;
-  lastUndo: { label: string; restore: () => Promise<void> } | null = null;
+  selectedIds = new Set<string>();
 
   constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
     super(app);
@@ -167,15 +323,13 @@ export class DeleteLogsModal extends Modal {
     contentEl.createEl("h3", { text: "Delete Domain Logs" });
 
     const undoBar = contentEl.createDiv({ cls: "life-domain-undo-bar" });
-    this.undoBtn = undoBar.createEl("button", { text: "Undo last delete" });
-    this.undoBtn.disabled = true;
+    this.undoBtn = undoBar.createEl("button");
     this.undoBtn.addEventListener("click", async () => {
-      if (!this.lastUndo) return;
-      await this.lastUndo.restore();
-      this.lastUndo = null;
-      if (this.undoBtn) this.undoBtn.disabled = true;
-      this.renderList();
+      if (await this.plugin.journal.undo()) this.onOpen();
     });
+    const trashBtn = undoBar.createEl("button", { text: "Recently deleted" });
+    trashBtn.addEventListener("click", () => new RecentlyDeletedModal(this.app, this.plugin).open());
+    this.updateUndoButton();
 
     const dates = Object.keys(this.plugin.dataStore.logs).sort().reverse();
     if (!dates.length) {
@@ -205,9 +359,7 @@ export class DeleteLogsModal extends Modal {
       const dateKey = this.dateSelectEl?.value ?? "";
       const domainId = this.domainSelectEl?.value ?? "";
       const stateId = this.stateSelectEl?.value || undefined;
-      const backup = this.cloneDayLogs(dateKey);
       await this.plugin.deleteLogs(dateKey, domainId, stateId);
-      this.setUndo("Delete filtered logs", dateKey, backup);
       this.renderList();
     });
 
@@ -215,21 +367,18 @@ export class DeleteLogsModal extends Modal {
     deleteDomainBtn.addEventListener("click", async () => {
       const dateKey = this.dateSelectEl?.value ?? "";
       const domainId = this.domainSelectEl?.value ?? "";
-      const backup = this.cloneDayLogs(dateKey);
       await this.plugin.deleteLogs(dateKey, domainId);
-      this.setUndo("Delete all for domain", dateKey, backup);
       this.renderList();
     });
 
     const deleteDayBtn = actions.createEl("button", { text: "Delete All For Day" });
     deleteDayBtn.addEventListener("click", async () => {
       const dateKey = this.dateSelectEl?.value ?? "";
-      const backup = this.cloneDayLogs(dateKey);
       await this.plugin.deleteAllForDate(dateKey);
-      this.setUndo("Delete all for day", dateKey, backup);
       this.onOpen();
     });
 
+    this.bulkEl = contentEl.createDiv({ cls: "life-domain-controls life-domain-bulk-bar" });
     this.listEl = contentEl.createDiv({ cls: "life-domain-list" });
 
     this.dateSelectEl.addEventListener("change", () => this.renderList());
@@ -240,6 +389,7 @@ export class DeleteLogsModal extends Modal {
   }
 
   private renderList() {
+    this.updateUndoButton();
     if (!this.listEl || !this.dateSelectEl || !this.domainSelectEl || !this.stateSelectEl) return;
     const dateKey = this.dateSelectEl.value;
     const domainId = this.domainSelectEl.value;
@@ -247,57 +397,883 @@ export class DeleteLogsModal extends Modal {
     if (!domain) return;
 
     const logs = this.plugin.dataStore.logs[dateKey]?.[domainId] ?? [];
+    const previousStateId = this.stateSelectEl.value;
     this.stateSelectEl.empty();
     this.stateSelectEl.createEl("option", { text: "All states", value: "" });
     for (const state of domain.states) {
       this.stateSelectEl.createEl("option", { text: state.name || "Unnamed", value: state.id });
     }
+    if (domain.states.some((s) => s.id === previousStateId)) this.stateSelectEl.value = previousStateId;
 
     const filterStateId = this.stateSelectEl.value || undefined;
+    const visible = logs.filter((entry) => !filterStateId || entry.stateId === filterStateId);
+    const visibleIds = new Set(visible.map((e) => e.id));
+    for (const id of Array.from(this.selectedIds)) {
+      if (!visibleIds.has(id)) this.selectedIds.delete(id);
+    }
 
     this.listEl.empty();
-    if (!logs.length) {
+    this.renderBulkBar(visible.map((e) => e.id));
+    if (!visible.length) {
       this.listEl.createEl("p", { text: "No logs for the selected date/domain." });
       return;
     }
 
-    logs.forEach((entry, index) => {
-      if (filterStateId && entry.stateId !== filterStateId) return;
+    for (const entry of visible) {
       const state = domain.states.find((s) => s.id === entry.stateId);
-      const row = this.listEl!.createDiv({ cls: "life-domain-state-row" });
+      const row = this.listEl.createDiv({ cls: "life-domain-state-row" });
+      const select = row.createEl("input", { cls: "life-domain-row-select" });
+      select.type = "checkbox";
+      select.checked = this.selectedIds.has(entry.id);
+      select.addEventListener("change", () => {
+        if (select.checked) this.selectedIds.add(entry.id);
+        else this.selectedIds.delete(entry.id);
+        this.renderBulkBar(visible.map((e) => e.id));
+      });
       const meta = row.createDiv({ cls: "life-domain-state-meta" });
       const time = new Date(entry.ts);
       meta.createEl("div", { text: `${state?.name ?? "Unknown"} • ${time.toLocaleTimeString()}` });
       const badges = meta.createDiv({ cls: "life-domain-badges" });
+      if (state && entry.value !== undefined) {
+        badges.createEl("span", { text: formatMeasurement(state, entry.value), cls: "life-domain-badge" });
+      }
       badges.createEl("span", { text: `Score ${entry.score}`, cls: "life-domain-badge" });
       if (entry.note) badges.createEl("span", { text: entry.note, cls: "life-domain-badge" });
 
       const actions = row.createDiv({ cls: "life-domain-state-actions" });
       const delBtn = actions.createEl("button", { text: "Delete" });
       delBtn.addEventListener("click", async () => {
-        const backup = this.cloneDayLogs(dateKey);
-        await this.plugin.deleteLogs(dateKey, domainId, undefined, index);
-        this.setUndo("Delete single log", dateKey, backup);
+        await this.plugin.deleteLogs(dateKey, domainId, undefined, entry.id);
         this.renderList();
       });
+    }
+  }
+
+  private renderBulkBar(visibleIds: string[]) {
+    if (!this.bulkEl) return;
+    this.bulkEl.empty();
+    if (!visibleIds.length) return;
+
+    const selectAllWrap = this.bulkEl.createEl("label", { cls: "life-domain-smoothing" });
+    const selectAll = selectAllWrap.createEl("input");
+    selectAll.type = "checkbox";
+    selectAll.checked = visibleIds.every((id) => this.selectedIds.has(id));
+    selectAllWrap.createEl("span", { text: `${this.selectedIds.size} selected` });
+    selectAll.addEventListener("change", () => {
+      for (const id of visibleIds) {
+        if (selectAll.checked) this.selectedIds.add(id);
+        else this.selectedIds.delete(id);
+      }
+      this.renderList();
+    });
+    if (!this.selectedIds.size) return;
+
+    const deleteBtn = this.bulkEl.createEl("button", { text: "Delete selected" });
+    deleteBtn.addEventListener("click", async () => {
+      const removed = await this.plugin.deleteLogsByIds(Array.from(this.selectedIds));
+      new Notice(`Deleted ${removed} logs`);
+      this.selectedIds.clear();
+      this.onOpen();
+    });
+
+    const dateInput = this.bulkEl.createEl("input");
+    dateInput.type = "date";
+    dateInput.value = this.dateSelectEl?.value ?? getCurrentDateKey(this.plugin.settings);
+    const moveDateBtn = this.bulkEl.createEl("button", { text: "Move to date" });
+    moveDateBtn.addEventListener("click", async () => {
+      if (!dateInput.value) return;
+      await this.applyBulkUpdate({ dateKey: dateInput.value });
+    });
+
+    const domainSelect = this.bulkEl.createEl("select");
+    for (const domain of this.plugin.settings.domains) {
+      domainSelect.createEl("option", { text: domain.name || "Unnamed domain", value: domain.id });
+    }
+    domainSelect.value = this.domainSelectEl?.value ?? "";
+    const stateSelect = this.bulkEl.createEl("select");
+    const renderStateOptions = () => {
+      stateSelect.empty();
+      stateSelect.createEl("option", { text: "Keep state", value: "" });
+      const domain = this.plugin.settings.domains.find((d) => d.id === domainSelect.value);
+      for (const state of domain?.states ?? []) {
+        stateSelect.createEl("option", { text: state.name || "Unnamed", value: state.id });
+      }
+    };
+    renderStateOptions();
+    domainSelect.addEventListener("change", renderStateOptions);
+    const applyBtn = this.bulkEl.createEl("button", { text: "Move / change state" });
+    applyBtn.addEventListener("click", async () => {
+      await this.applyBulkUpdate({
+        domainId: domainSelect.value,
+        stateId: stateSelect.value || undefined
+      });
+    });
+  }
+
+  private async applyBulkUpdate(changes: { dateKey?: string; domainId?: string; stateId?: string }) {
+    const result = await this.plugin.bulkUpdateLogs(Array.from(this.selectedIds), changes);
+    new Notice(
+      `Updated ${result.updated} logs` + (result.skipped ? `, skipped ${result.skipped} without a matching state` : "")
+    );
+    this.selectedIds.clear();
+    this.onOpen();
+  }
+
+  private updateUndoButton() {
+    if (!this.undoBtn) return;
+    const label = this.plugin.journal.getUndoLabel();
+    this.undoBtn.setText(label ? `Undo: ${label}` : "Undo");
+    this.undoBtn.disabled = !label;
+  }
+}
+
+type CsvField = "date" | "time" | "state" | "score" | "note" | "value";
+
+const CSV_FIELDS: { key: CsvField; label: string; aliases: string[]; required: boolean }[] = [
+  { key: "date", label: "Date", aliases: ["date", "day"], required: true },
+  { key: "time", label: "Time", aliases: ["time", "hour"], required: false },
+  { key: "state", label: "State", aliases: ["state_name", "state", "name", "label"], required: true },
+  { key: "score", label: "Score", aliases: ["score"], required: false },
+  { key: "note", label: "Note", aliases: ["note", "notes", "comment"], required: false },
+  { key: "value", label: "Measured value", aliases: ["value", "amount", "measurement"], required: false }
+];
+
+const PREVIEW_LIMIT = 200;
+
+type ImportPreviewRow = {
+  line: number;
+  raw: string[];
+  row: ImportLogRow | null;
+  status: "ok" | "duplicate" | "new-state" | "unknown-state" | "invalid";
+  message?: string;
+};
+
+export class ImportCsvModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+  fileSelectEl: HTMLSelectElement | null = null;
+  domainSelectEl: HTMLSelectElement | null = null;
+  mappingEl: HTMLElement | null = null;
+  summaryEl: HTMLElement | null = null;
+  listEl: HTMLElement | null = null;
+  importBtn: HTMLButtonElement | null = null;
+  rows: string[][] = [];
+  hasHeader = true;
+  mapping: Record<CsvField, number> = { date: -1, time: -1, state: -1, score: -1, note: -1, value: -1 };
+  createMissingStates = false;
+  preview: ImportPreviewRow[] = [];
+
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: "Import Domain Logs" });
+
+    const files = this.app.vault
+      .getFiles()
+      .filter((f) => f.extension.toLowerCase() === "csv")
+      .sort((a, b) => a.path.localeCompare(b.path));
+    if (!files.length) {
+      contentEl.createEl("p", { text: "No CSV files found in the vault." });
+      return;
+    }
+    const domains = this.plugin.settings.domains;
+    if (!domains.length) {
+      contentEl.createEl("p", { text: "No domains configured. Add domains in settings." });
+      return;
+    }
+
+    const controls = contentEl.createDiv({ cls: "life-domain-controls" });
+    controls.createEl("label", { text: "File" });
+    this.fileSelectEl = controls.createEl("select");
+    for (const file of files) {
+      this.fileSelectEl.createEl("option", { text: file.path, value: file.path });
+    }
+
+    controls.createEl("label", { text: "Domain" });
+    this.domainSelectEl = controls.createEl("select");
+    for (const domain of domains) {
+      this.domainSelectEl.createEl("option", { text: domain.name, value: domain.id });
+    }
+
+    const options = contentEl.createDiv({ cls: "life-domain-controls" });
+    const headerWrap = options.createEl("label", { cls: "life-domain-smoothing" });
+    const headerToggle = headerWrap.createEl("input");
+    headerToggle.type = "checkbox";
+    headerToggle.checked = this.hasHeader;
+    headerWrap.createEl("span", { text: "First row is a header" });
+    const createWrap = options.createEl("label", { cls: "life-domain-smoothing" });
+    const createToggle = createWrap.createEl("input");
+    createToggle.type = "checkbox";
+    createToggle.checked = this.createMissingStates;
+    createWrap.createEl("span", { text: "Create unknown states" });
+
+    this.mappingEl = contentEl.createDiv({ cls: "life-domain-controls life-domain-import-mapping" });
+    this.summaryEl = contentEl.createDiv({ cls: "life-domain-summary" });
+    this.listEl = contentEl.createDiv({ cls: "life-domain-list" });
+
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    this.importBtn = actions.createEl("button", { text: "Import", cls: "mod-cta" });
+    this.importBtn.addEventListener("click", async () => {
+      const domainId = this.domainSelectEl?.value ?? "";
+      const toImport = this.preview
+        .filter((p) => p.row && (p.status === "ok" || p.status === "new-state"))
+        .map((p) => p.row!);
+      if (!toImport.length) {
+        new Notice("Nothing to import.");
+        return;
+      }
+      const result = await this.plugin.importLogs(domainId, toImport, this.createMissingStates);
+      new Notice(
+        `Imported ${result.imported} logs` +
+          (result.createdStates ? `, created ${result.createdStates} states` : "") +
+          (result.skipped ? `, skipped ${result.skipped}` : "")
+      );
+      this.close();
+    });
+
+    this.fileSelectEl.addEventListener("change", () => void this.loadFile());
+    this.domainSelectEl.addEventListener("change", () => this.renderPreview());
+    headerToggle.addEventListener("change", () => {
+      this.hasHeader = headerToggle.checked;
+      this.autoMap();
+      this.renderMapping();
+      this.renderPreview();
+    });
+    createToggle.addEventListener("change", () => {
+      this.createMissingStates = createToggle.checked;
+      this.renderPreview();
+    });
+
+    void this.loadFile();
+  }
+
+  private async loadFile() {
+    const path = this.fileSelectEl?.value ?? "";
+    const file = this.app.vault.getAbstractFileByPath(path);
+    if (!(file instanceof TFile)) return;
+    this.rows = parseCsv(await this.app.vault.cachedRead(file));
+    this.autoMap();
+    this.renderMapping();
+    this.renderPreview();
+  }
+
+  private autoMap() {
+    if (!this.hasHeader) {
+      // Fall back to the column order written by exportDomainCsv.
+      this.mapping = { date: 0, time: 1, state: 2, score: 3, note: 4, value: 5 };
+      return;
+    }
+    const header = (this.rows[0] ?? []).map((h) => h.trim().toLowerCase());
+    for (const field of CSV_FIELDS) {
+      this.mapping[field.key] = header.findIndex((h) => field.aliases.includes(h));
+    }
+  }
+
+  private renderMapping() {
+    if (!this.mappingEl) return;
+    this.mappingEl.empty();
+    const columnCount = this.rows.reduce((acc, r) => Math.max(acc, r.length), 0);
+    const header = this.hasHeader ? this.rows[0] ?? [] : [];
+
+    for (const field of CSV_FIELDS) {
+      this.mappingEl.createEl("label", { text: field.label });
+      const select = this.mappingEl.createEl("select");
+      select.createEl("option", { text: field.required ? "Choose column" : "Not mapped", value: "-1" });
+      for (let i = 0; i < columnCount; i++) {
+        select.createEl("option", { text: header[i]?.trim() || `Column ${i + 1}`, value: String(i) });
+      }
+      if (this.mapping[field.key] >= columnCount) this.mapping[field.key] = -1;
+      select.value = String(this.mapping[field.key]);
+      select.addEventListener("change", () => {
+        this.mapping[field.key] = Number(select.value);
+        this.renderPreview();
+      });
+    }
+  }
+
+  private renderPreview() {
+    if (!this.summaryEl || !this.listEl) return;
+    const domain = this.plugin.settings.domains.find((d) => d.id === this.domainSelectEl?.value);
+    if (!domain) return;
+
+    this.preview = buildImportPreview(
+      this.plugin,
+      domain,
+      this.hasHeader ? this.rows.slice(1) : this.rows,
+      this.mapping,
+      this.createMissingStates,
+      this.hasHeader ? 2 : 1
+    );
+
+    const counts = new Map<ImportPreviewRow["status"], number>();
+    for (const row of this.preview) counts.set(row.status, (counts.get(row.status) ?? 0) + 1);
+    const importable = (counts.get("ok") ?? 0) + (counts.get("new-state") ?? 0);
+
+    this.summaryEl.empty();
+    const summary = this.summaryEl.createDiv({ cls: "life-domain-summary-row" });
+    summary.createEl("div", { text: `Rows: ${this.preview.length}` });
+    summary.createEl("div", { text: `To import: ${importable}` });
+    summary.createEl("div", { text: `Duplicates: ${counts.get("duplicate") ?? 0}` });
+    summary.createEl("div", { text: `Unknown states: ${counts.get("unknown-state") ?? 0}` });
+    summary.createEl("div", { text: `Invalid: ${counts.get("invalid") ?? 0}` });
+    if (this.importBtn) this.importBtn.disabled = importable === 0;
+
+    this.listEl.empty();
+    const missingRequired = CSV_FIELDS.filter((f) => f.required && this.mapping[f.key] < 0);
+    if (missingRequired.length) {
+      this.listEl.createEl("p", { text: `Map the ${missingRequired.map((f) => f.label).join(" and ")} column.` });
+      return;
+    }
+
+    for (const item of this.preview.slice(0, PREVIEW_LIMIT)) {
+      const row = this.listEl.createDiv({ cls: "life-domain-state-row" });
+      const meta = row.createDiv({ cls: "life-domain-state-meta" });
+      if (item.row) {
+        const time = new Date(item.row.ts);
+        meta.createEl("div", {
+          text:
+            `${getDateKeyFromTs(item.row.ts, this.plugin.settings)} ${time.toLocaleTimeString()} • ` +
+            item.row.stateName
+        });
+      } else {
+        meta.createEl("div", { text: item.raw.join(", ") });
+      }
+      const badges = meta.createDiv({ cls: "life-domain-badges" });
+      badges.createEl("span", { text: `Line ${item.line}`, cls: "life-domain-badge" });
+      if (item.row?.score !== undefined) {
+        badges.createEl("span", { text: `Score ${item.row.score}`, cls: "life-domain-badge" });
+      }
+      if (item.row?.note) badges.createEl("span", { text: item.row.note, cls: "life-domain-badge" });
+      if (item.status !== "ok") {
+        badges.createEl("span", { text: item.message ?? item.status, cls: "life-domain-badge" });
+      }
+      if (item.status === "ok" || item.status === "new-state") row.classList.add("life-domain-good");
+      else row.classList.add("life-domain-bad");
+    }
+    if (this.preview.length > PREVIEW_LIMIT) {
+      this.listEl.createEl("p", { text: `…and ${this.preview.length - PREVIEW_LIMIT} more rows.` });
+    }
+  }
+}
+
+function buildImportPreview(
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  rows: string[][],
+  mapping: Record<CsvField, number>,
+  createMissingStates: boolean,
+  firstLine: number
+): ImportPreviewRow[] {
+  const cell = (raw: string[], field: CsvField) => (mapping[field] >= 0 ? (raw[mapping[field]] ?? "").trim() : "");
+  const seen = new Set<string>();
+  const preview: ImportPreviewRow[] = [];
+
+  rows.forEach((raw, idx) => {
+    const line = firstLine + idx;
+    const ts = parseCsvTimestamp(cell(raw, "date"), cell(raw, "time"));
+    if (ts === null) {
+      preview.push({ line, raw, row: null, status: "invalid", message: "Invalid date or time" });
+      return;
+    }
+    const stateName = cell(raw, "state");
+    if (!stateName) {
+      preview.push({ line, raw, row: null, status: "invalid", message: "Missing state" });
+      return;
+    }
+    const scoreText = cell(raw, "score");
+    const score = scoreText ? Number(scoreText) : undefined;
+    if (score !== undefined && !Number.isFinite(score)) {
+      preview.push({ line, raw, row: null, status: "invalid", message: "Invalid score" });
+      return;
+    }
+
+    const valueText = cell(raw, "value");
+    const value = valueText ? Number(valueText) : undefined;
+    if (value !== undefined && !Number.isFinite(value)) {
+      preview.push({ line, raw, row: null, status: "invalid", message: "Invalid value" });
+      return;
+    }
+
+    const row: ImportLogRow = { stateName, ts, score, note: cell(raw, "note") || undefined, value };
+    const state = findStateByName(domain, stateName);
+    // Exports only keep minute precision, so duplicates are matched per state and minute.
+    const minute = Math.floor(ts / 60000);
+    const key = `${stateName.toLowerCase()}|${minute}`;
+    const existing = state
+      ? plugin
+          .getLogsForDate(getDateKeyFromTs(ts, plugin.settings), domain.id)
+          .some((e) => e.stateId === state.id && Math.floor(e.ts / 60000) === minute)
+      : false;
+
+    if (domain.archived || state?.archived) {
+      preview.push({ line, raw, row, status: "invalid", message: "Archived" });
+    } else if (state && isMeasuredState(state) && value === undefined) {
+      preview.push({ line, raw, row, status: "invalid", message: "Missing value" });
+    } else if (existing || seen.has(key)) {
+      preview.push({ line, raw, row, status: "duplicate", message: "Duplicate" });
+    } else if (!state && !createMissingStates) {
+      preview.push({ line, raw, row, status: "unknown-state", message: "Unknown state" });
+    } else {
+      seen.add(key);
+      preview.push({ line, raw, row, status: state ? "ok" : "new-state", message: state ? undefined : "New state" });
+    }
+  });
+
+  return preview;
+}
+
+function parseCsvTimestamp(dateText: string, timeText: string): number | null {
+  const dateMatch = dateText.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  if (!dateMatch) {
+    // Accept full ISO timestamps in the date column when no time column is mapped.
+    const parsed = Date.parse(dateText);
+    return dateText && !timeText && Number.isFinite(parsed) ? parsed : null;
+  }
+  let hours = 12;
+  let minutes = 0;
+  let seconds = 0;
+  if (timeText) {
+    const timeMatch = timeText.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(am|pm)?$/i);
+    if (!timeMatch) return null;
+    hours = Number(timeMatch[1]);
+    minutes = Number(timeMatch[2]);
+    seconds = Number(timeMatch[3] ?? 0);
+    const period = timeMatch[4]?.toLowerCase();
+    if (period === "pm" && hours < 12) hours += 12;
+    if (period === "am" && hours === 12) hours = 0;
+    if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  }
+  const date = new Date(
+    Number(dateMatch[1]),
+    Number(dateMatch[2]) - 1,
+    Number(dateMatch[3]),
+    hours,
+    minutes,
+    seconds,
+    0
+  );
+  return Number.isNaN(date.getTime()) ? null : date.getTime();
+}
+
+export class RestoreBackupModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+  fileSelectEl: HTMLSelectElement | null = null;
+  modeSelectEl: HTMLSelectElement | null = null;
+  summaryEl: HTMLElement | null = null;
+  restoreBtn: HTMLButtonElement | null = null;
+
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: "Restore from Backup" });
+
+    const files = this.app.vault
+      .getFiles()
+      .filter((f) => f.extension.toLowerCase() === "json" && f.basename.startsWith("life-domain-tracker-backup-"))
+      .sort((a, b) => b.path.localeCompare(a.path));
+    if (!files.length) {
+      contentEl.createEl("p", { text: "No backup files found in the vault." });
+      return;
+    }
+
+    const controls = contentEl.createDiv({ cls: "life-domain-controls" });
+    controls.createEl("label", { text: "Backup" });
+    this.fileSelectEl = controls.createEl("select");
+    for (const file of files) {
+      this.fileSelectEl.createEl("option", { text: file.path, value: file.path });
+    }
+
+    controls.createEl("label", { text: "Mode" });
+    this.modeSelectEl = controls.createEl("select");
+    this.modeSelectEl.createEl("option", { text: "Merge into current data", value: "merge" });
+    this.modeSelectEl.createEl("option", { text: "Replace current data", value: "replace" });
+
+    this.summaryEl = contentEl.createDiv({ cls: "life-domain-summary" });
+
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    this.restoreBtn = actions.createEl("button", { text: "Restore", cls: "mod-warning" });
+    this.restoreBtn.disabled = true;
+    this.restoreBtn.addEventListener("click", async () => {
+      let plan: Awaited<ReturnType<RestoreBackupModal["buildPlan"]>>;
+      try {
+        plan = await this.buildPlan();
+      } catch (error) {
+        this.showError(error);
+        return;
+      }
+      if (!plan) return;
+      await this.plugin.restoreStorage(plan.result);
+      new Notice("Backup restored.");
+      this.close();
     });
+
+    this.fileSelectEl.addEventListener("change", () => void this.renderSummary());
+    this.modeSelectEl.addEventListener("change", () => void this.renderSummary());
+    void this.renderSummary();
+  }
+
+  private async buildPlan() {
+    const file = this.app.vault.getAbstractFileByPath(this.fileSelectEl?.value ?? "");
+    if (!(file instanceof TFile)) return null;
+    const mode = (this.modeSelectEl?.value as RestoreMode) ?? "merge";
+    const backup = parseBackup(await this.app.vault.read(file));
+    return planRestore({ settings: this.plugin.settings, data: this.plugin.dataStore }, backup, mode);
+  }
+
+  private async renderSummary() {
+    if (!this.summaryEl) return;
+    this.summaryEl.empty();
+    if (this.restoreBtn) this.restoreBtn.disabled = true;
+
+    let plan: Awaited<ReturnType<RestoreBackupModal["buildPlan"]>>;
+    try {
+      plan = await this.buildPlan();
+    } catch (error) {
+      this.showError(error);
+      return;
+    }
+    if (!plan) return;
+
+    this.summaryEl.createEl("div", { text: "Changes", cls: "life-domain-summary-row" });
+    const chips = this.summaryEl.createDiv({ cls: "life-domain-chips" });
+    for (const line of describeRestoreSummary(plan.summary)) {
+      chips.createEl("span", { text: line, cls: "life-domain-chip" });
+    }
+    if (this.restoreBtn) this.restoreBtn.disabled = false;
   }
 
-  private cloneDayLogs(dateKey: string): Record<string, any> | null {
-    const day = this.plugin.dataStore.logs[dateKey];
-    if (!day) return null;
-    return JSON.parse(JSON.stringify(day));
+  private showError(error: unknown) {
+    if (!this.summaryEl) return;
+    this.summaryEl.empty();
+    this.summaryEl.createEl("p", { text: (error as Error).message });
+    if (this.restoreBtn) this.restoreBtn.disabled = true;
   }
+}
+
+/**
+ * Confirms deleting a domain, or one of its states, and decides what happens to its logs:
+ * purge them or move them to another state. Offers archiving as the non-destructive option.
+ */
+export class DeleteDomainItemModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+  domain: LifeDomain;
+  state: LifeDomainState | null;
+  onDone: () => void;
+  modeSelectEl: HTMLSelectElement | null = null;
+  targetSelectEl: HTMLSelectElement | null = null;
+  summaryEl: HTMLElement | null = null;
+  targets: { domainId: string; stateId: string; label: string }[] = [];
+
+  constructor(
+    app: LifeDomainTrackerPlugin["app"],
+    plugin: LifeDomainTrackerPlugin,
+    domain: LifeDomain,
+    state: LifeDomainState | null,
+    onDone: () => void
+  ) {
+    super(app);
+    this.plugin = plugin;
+    this.domain = domain;
+    this.state = state;
+    this.onDone = onDone;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    const item = this.state ?? this.domain;
+    const itemKind = this.state ? "state" : "domain";
+    contentEl.createEl("h3", { text: `Delete ${item.name || `Unnamed ${itemKind}`}` });
+    const count = this.plugin.countLogs(this.domain.id, this.state?.id);
+    // Moving a log changes it in two places, so the step counts it twice.
+    const undoable = count * 2 <= JOURNAL_STEP_ENTRY_LIMIT;
+    contentEl.createEl("p", {
+      text:
+        `Archiving hides the ${itemKind} from logging but keeps its history in charts. ` +
+        (undoable ? "Deleting can be undone with the Undo Last Change command, and deleted" : "Deleted") +
+        ` logs stay in Recently deleted for ${TRASH_RETENTION_DAYS} days.`
+    });
+
+    this.targets = this.getTargets();
+    if (count) {
+      const controls = contentEl.createDiv({ cls: "life-domain-controls" });
+      controls.createEl("label", { text: "Logs" });
+      this.modeSelectEl = controls.createEl("select");
+      this.modeSelectEl.createEl("option", { text: "Delete them", value: "purge" });
+      if (this.targets.length) this.modeSelectEl.createEl("option", { text: "Move them to", value: "reassign" });
+      this.targetSelectEl = controls.createEl("select");
+      this.targets.forEach((target, index) => {
+        this.targetSelectEl?.createEl("option", { text: target.label, value: String(index) });
+      });
+      this.modeSelectEl.addEventListener("change", () => this.renderSummary(count));
+      this.targetSelectEl.addEventListener("change", () => this.renderSummary(count));
+    }
+    this.summaryEl = contentEl.createDiv({ cls: "life-domain-summary" });
+    this.renderSummary(count);
 
-  private setUndo(label: string, dateKey: string, backup: Record<string, any> | null) {
-    if (!backup) return;
-    this.lastUndo = {
-      label,
-      restore: async () => {
-        this.plugin.dataStore.logs[dateKey] = backup as any;
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    if (!item.archived) {
+      const archiveBtn = actions.createEl("button", { text: "Archive instead" });
+      archiveBtn.addEventListener("click", async () => {
+        item.archived = true;
         await this.plugin.saveSettings();
+        this.plugin.notifyLogsChanged();
+        this.close();
+        this.onDone();
+      });
+    }
+    const deleteBtn = actions.createEl("button", { text: "Delete", cls: "mod-warning" });
+    deleteBtn.addEventListener("click", async () => {
+      const reassignTo = this.getReassignTarget();
+      const affected = await this.plugin.deleteDomainOrState(this.domain.id, this.state?.id, reassignTo);
+      if (affected) new Notice(`${reassignTo ? "Moved" : "Deleted"} ${affected} log${affected === 1 ? "" : "s"}.`);
+      this.close();
+      this.onDone();
+    });
+  }
+
+  /** Sibling states when deleting a state; every other domain's states when deleting a domain. */
+  private getTargets(): { domainId: string; stateId: string; label: string }[] {
+    if (this.state) {
+      return this.domain.states
+        .filter((s) => s.id !== this.state?.id)
+        .map((s) => ({ domainId: this.domain.id, stateId: s.id, label: s.name || "Unnamed" }));
+    }
+    const targets: { domainId: string; stateId: string; label: string }[] = [];
+    for (const domain of this.plugin.settings.domains) {
+      if (domain.id === this.domain.id) continue;
+      for (const state of domain.states) {
+        const label = `${domain.name || "Unnamed"}: ${state.name || "Unnamed"}`;
+        targets.push({ domainId: domain.id, stateId: state.id, label });
       }
-    };
-    if (this.undoBtn) this.undoBtn.disabled = false;
+    }
+    return targets;
+  }
+
+  private getReassignTarget(): { domainId: string; stateId: string } | undefined {
+    if (this.modeSelectEl?.value !== "reassign" || !this.targetSelectEl) return undefined;
+    const target = this.targets[Number(this.targetSelectEl.value)];
+    return target && { domainId: target.domainId, stateId: target.stateId };
+  }
+
+  private renderSummary(count: number) {
+    if (!this.summaryEl) return;
+    this.summaryEl.empty();
+    this.targetSelectEl?.toggle(this.modeSelectEl?.value === "reassign");
+    const entries = `${count} log entr${count === 1 ? "y" : "ies"}`;
+    let text = "No logs reference it.";
+    if (count && this.getReassignTarget()) {
+      text = `${entries} will be moved to ${this.targets[Number(this.targetSelectEl?.value)].label}.`;
+    } else if (count) {
+      text = `${entries} will be permanently deleted.`;
+    }
+    this.summaryEl.createEl("div", { text, cls: "life-domain-summary-row" });
+  }
+}
+
+export class RecentlyDeletedModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: "Recently Deleted Logs" });
+    contentEl.createEl("p", { text: `Deleted logs are kept for ${TRASH_RETENTION_DAYS} days.` });
+
+    this.plugin.journal.purgeTrash();
+    const trash = (this.plugin.dataStore.trash ?? []).slice().sort((a, b) => b.deletedAt - a.deletedAt);
+    if (!trash.length) {
+      contentEl.createEl("p", { text: "Nothing has been deleted recently." });
+      return;
+    }
+
+    const restorable = trash.filter((t) => this.plugin.settings.domains.some((d) => d.id === t.domainId));
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    const restoreAllBtn = actions.createEl("button", { text: `Restore all (${restorable.length})` });
+    restoreAllBtn.disabled = !restorable.length;
+    restoreAllBtn.addEventListener("click", async () => {
+      const restored = await this.plugin.restoreDeletedLogs(restorable.map((t) => t.entry.id));
+      new Notice(`Restored ${restored} logs`);
+      this.onOpen();
+    });
+
+    const list = contentEl.createDiv({ cls: "life-domain-list" });
+    for (const item of trash) {
+      const domain = this.plugin.settings.domains.find((d) => d.id === item.domainId);
+      const state = domain?.states.find((s) => s.id === item.entry.stateId);
+      const row = list.createDiv({ cls: "life-domain-state-row" });
+      const meta = row.createDiv({ cls: "life-domain-state-meta" });
+      const time = new Date(item.entry.ts).toLocaleTimeString();
+      meta.createEl("div", {
+        text: `${domain?.name || "Deleted domain"} • ${state?.name ?? "Unknown"} • ${item.dateKey} ${time}`
+      });
+      const badges = meta.createDiv({ cls: "life-domain-badges" });
+      if (state && item.entry.value !== undefined) {
+        badges.createEl("span", { text: formatMeasurement(state, item.entry.value), cls: "life-domain-badge" });
+      }
+      badges.createEl("span", { text: `Score ${item.entry.score}`, cls: "life-domain-badge" });
+      if (item.entry.note) badges.createEl("span", { text: item.entry.note, cls: "life-domain-badge" });
+      badges.createEl("span", {
+        text: `Deleted ${new Date(item.deletedAt).toLocaleString()}`,
+        cls: "life-domain-badge"
+      });
+
+      const rowActions = row.createDiv({ cls: "life-domain-state-actions" });
+      const restoreBtn = rowActions.createEl("button", { text: "Restore" });
+      if (!domain) {
+        // Restoring into a deleted domain would orphan the entry; undoing the deletion brings both back.
+        restoreBtn.disabled = true;
+        restoreBtn.setAttr("title", "Its domain was deleted. Undo the deletion to restore it.");
+      }
+      restoreBtn.addEventListener("click", async () => {
+        await this.plugin.restoreDeletedLogs([item.entry.id]);
+        this.onOpen();
+      });
+    }
+  }
+}
+
+/** Lists settings changed both here and on another device; each keeps this device's side unless switched. */
+export class SyncConflictModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+  conflicts: SettingsConflict[];
+  useRemote = new Set<string>();
+
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin, conflicts: SettingsConflict[]) {
+    super(app);
+    this.plugin = plugin;
+    this.conflicts = conflicts;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: "Resolve Sync Conflicts" });
+    contentEl.createEl("p", {
+      text:
+        "These settings changed on this device and on another one. " +
+        "This device's version is kept unless you pick the other."
+    });
+
+    const list = contentEl.createDiv({ cls: "life-domain-list" });
+    for (const conflict of this.conflicts) {
+      const row = list.createDiv({ cls: "life-domain-state-row" });
+      const meta = row.createDiv({ cls: "life-domain-state-meta" });
+      meta.createEl("div", { text: conflict.label });
+      const badges = meta.createDiv({ cls: "life-domain-badges" });
+      badges.createEl("span", {
+        text: `This device: ${describeConflictSide(conflict, "local")}`,
+        cls: "life-domain-badge"
+      });
+      badges.createEl("span", {
+        text: `Other device: ${describeConflictSide(conflict, "remote")}`,
+        cls: "life-domain-badge"
+      });
+
+      const select = row.createDiv({ cls: "life-domain-state-actions" }).createEl("select");
+      select.createEl("option", { text: "Keep this device", value: "local" });
+      select.createEl("option", { text: "Use other device", value: "remote" });
+      select.value = this.useRemote.has(conflict.key) ? "remote" : "local";
+      select.addEventListener("change", () => {
+        if (select.value === "remote") this.useRemote.add(conflict.key);
+        else this.useRemote.delete(conflict.key);
+      });
+    }
+
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    const applyBtn = actions.createEl("button", { text: "Apply", cls: "mod-cta" });
+    applyBtn.addEventListener("click", async () => {
+      const chosen = this.conflicts.filter((c) => this.useRemote.has(c.key));
+      if (chosen.length) await this.plugin.useRemoteSettings(chosen);
+      this.close();
+    });
+  }
+}
+
+export class ReviewNoteModal extends Modal {
+  plugin: LifeDomainTrackerPlugin;
+  kind: ReviewPeriodKind = "week";
+  dateKey: string;
+  summaryEl: HTMLElement | null = null;
+  createBtn: HTMLButtonElement | null = null;
+
+  constructor(app: LifeDomainTrackerPlugin["app"], plugin: LifeDomainTrackerPlugin) {
+    super(app);
+    this.plugin = plugin;
+    this.dateKey = getCurrentDateKey(plugin.settings);
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("life-domain-modal");
+    contentEl.createEl("h3", { text: "Generate Review Note" });
+
+    const controls = contentEl.createDiv({ cls: "life-domain-controls" });
+    controls.createEl("label", { text: "Period" });
+    const kindSelect = controls.createEl("select");
+    kindSelect.createEl("option", { text: "Week", value: "week" });
+    kindSelect.createEl("option", { text: "Month", value: "month" });
+    kindSelect.value = this.kind;
+    kindSelect.addEventListener("change", () => {
+      this.kind = kindSelect.value as ReviewPeriodKind;
+      this.renderSummary();
+    });
+    controls.createEl("label", { text: "Containing" });
+    const dateInput = controls.createEl("input");
+    dateInput.type = "date";
+    dateInput.value = this.dateKey;
+    dateInput.addEventListener("change", () => {
+      if (!dateInput.value) return;
+      this.dateKey = dateInput.value;
+      this.renderSummary();
+    });
+
+    this.summaryEl = contentEl.createDiv({ cls: "life-domain-summary" });
+    const actions = contentEl.createDiv({ cls: "life-domain-controls" });
+    this.createBtn = actions.createEl("button", { text: "Create note", cls: "mod-cta" });
+    this.createBtn.addEventListener("click", async () => {
+      const period = resolveReviewPeriod(this.kind, this.dateKey);
+      try {
+        const file = await writeReviewNote(this.plugin, period);
+        this.close();
+        await this.app.workspace.getLeaf(true).openFile(file);
+      } catch (error) {
+        console.error("Life Domain Tracker: could not write review note", error);
+        new Notice(error instanceof Error ? error.message : "Could not write the review note.");
+      }
+    });
+    this.renderSummary();
+  }
+
+  private renderSummary() {
+    if (!this.summaryEl) return;
+    this.summaryEl.empty();
+    const period = resolveReviewPeriod(this.kind, this.dateKey);
+    const path = getReviewNotePath(this.plugin, period);
+    const exists = !!this.app.vault.getAbstractFileByPath(path);
+    const row = this.summaryEl.createDiv({ cls: "life-domain-summary-row" });
+    row.createEl("div", { text: `${period.title}: ${period.dates[0]} – ${period.dates[period.dates.length - 1]}` });
+    row.createEl("div", { text: exists ? `Replaces ${path}` : `Saved as ${path}` });
+    this.createBtn?.setText(exists ? "Replace note" : "Create note");
   }
 }
@@ -0,0 +1,168 @@
+import { Notice } from "obsidian";
+import LifeDomainTrackerPlugin, { LifeDomain, LifeDomainReminder, getActiveDomains, getCurrentDateKey } from "./main";
+import { LogDomainModal } from "./modals";
+
+const REMINDER_CHECK_INTERVAL_MS = 30 * 1000;
+// Reminders that fire this long after their scheduled time are labelled as missed.
+const MISSED_GRACE_MS = 15 * 60 * 1000;
+
+type ActiveReminder = { dateKey: string; dismiss: () => void };
+
+export class ReminderManager {
+  plugin: LifeDomainTrackerPlugin;
+  bannerEl: HTMLElement | null = null;
+  active = new Map<string, ActiveReminder>();
+
+  constructor(plugin: LifeDomainTrackerPlugin) {
+    this.plugin = plugin;
+  }
+
+  start() {
+    this.plugin.registerInterval(window.setInterval(() => this.check(), REMINDER_CHECK_INTERVAL_MS));
+    // Running once on layout ready also catches up on reminders missed while the app was closed,
+    // but only for the current day: earlier days that stayed unlogged are not reported.
+    this.plugin.app.workspace.onLayoutReady(() => this.check());
+  }
+
+  stop() {
+    for (const item of this.active.values()) item.dismiss();
+    this.active.clear();
+    this.bannerEl?.remove();
+    this.bannerEl = null;
+  }
+
+  /** Fires reminders that are due and still pending for the current day. Earlier days are never revisited. */
+  check() {
+    const now = new Date();
+    const todayKey = getCurrentDateKey(this.plugin.settings);
+    for (const domain of getActiveDomains(this.plugin.settings)) {
+      for (const reminder of domain.reminders ?? []) {
+        if (!reminder.enabled) continue;
+        // A notice closed by clicking it stays in the map, so only today's entry blocks a new one.
+        if (this.active.get(reminder.id)?.dateKey === todayKey) continue;
+        this.dismiss(reminder.id);
+        const dueAt = reminderDueAt(reminder, todayKey, this.plugin.settings.dayStartHour);
+        if (dueAt === null || now.getTime() < dueAt) continue;
+
+        const state = this.plugin.dataStore.reminderState?.[reminder.id] ?? {};
+        if (state.lastFiredDate === todayKey) continue;
+        if (state.snoozedUntil && now.getTime() < state.snoozedUntil) continue;
+        if (!isReminderPending(this.plugin, domain, reminder, todayKey)) continue;
+
+        this.fire(domain, reminder, todayKey, now.getTime() - dueAt > MISSED_GRACE_MS);
+        this.setReminderState(reminder.id, { lastFiredDate: todayKey });
+      }
+    }
+  }
+
+  private fire(domain: LifeDomain, reminder: LifeDomainReminder, dateKey: string, missed: boolean) {
+    const message = describeReminderMessage(domain, reminder, missed);
+    if (this.plugin.settings.reminderStyle === "banner") {
+      const banner = this.getBanner();
+      const item = banner.createDiv({ cls: "life-domain-reminder-item" });
+      this.renderReminder(item, domain, reminder, message);
+      this.active.set(reminder.id, { dateKey, dismiss: () => this.removeBannerItem(item) });
+      return;
+    }
+
+    const fragment = document.createDocumentFragment();
+    const wrap = fragment.createDiv({ cls: "life-domain-reminder-item" });
+    const notice = new Notice(fragment, 0);
+    this.active.set(reminder.id, { dateKey, dismiss: () => notice.hide() });
+    this.renderReminder(wrap, domain, reminder, message);
+  }
+
+  private renderReminder(container: HTMLElement, domain: LifeDomain, reminder: LifeDomainReminder, message: string) {
+    container.createDiv({ text: message, cls: "life-domain-reminder-text" });
+    const actions = container.createDiv({ cls: "life-domain-reminder-actions" });
+
+    const logBtn = actions.createEl("button", { text: "Log now", cls: "mod-cta" });
+    logBtn.addEventListener("click", (evt) => {
+      evt.stopPropagation();
+      this.dismiss(reminder.id);
+      new LogDomainModal(this.plugin.app, this.plugin, domain.id).open();
+    });
+
+    const snoozeMinutes = this.plugin.settings.reminderSnoozeMinutes;
+    const snoozeBtn = actions.createEl("button", { text: `Snooze ${snoozeMinutes}m` });
+    snoozeBtn.addEventListener("click", (evt) => {
+      evt.stopPropagation();
+      this.dismiss(reminder.id);
+      this.setReminderState(reminder.id, {
+        lastFiredDate: undefined,
+        snoozedUntil: Date.now() + snoozeMinutes * 60 * 1000
+      });
+    });
+
+    const dismissBtn = actions.createEl("button", { text: "Dismiss" });
+    dismissBtn.addEventListener("click", (evt) => {
+      evt.stopPropagation();
+      this.dismiss(reminder.id);
+    });
+  }
+
+  private dismiss(reminderId: string) {
+    this.active.get(reminderId)?.dismiss();
+    this.active.delete(reminderId);
+  }
+
+  private getBanner(): HTMLElement {
+    if (!this.bannerEl) {
+      this.bannerEl = document.body.createDiv({ cls: "life-domain-reminder-banner" });
+    }
+    return this.bannerEl;
+  }
+
+  private removeBannerItem(item: HTMLElement) {
+    item.remove();
+    if (this.bannerEl && !this.bannerEl.childElementCount) {
+      this.bannerEl.remove();
+      this.bannerEl = null;
+    }
+  }
+
+  private setReminderState(reminderId: string, patch: { lastFiredDate?: string; snoozedUntil?: number }) {
+    if (!this.plugin.dataStore.reminderState) this.plugin.dataStore.reminderState = {};
+    this.plugin.dataStore.reminderState[reminderId] = {
+      ...this.plugin.dataStore.reminderState[reminderId],
+      ...patch
+    };
+    void this.plugin.saveSettings();
+  }
+}
+
+export function isReminderPending(
+  plugin: LifeDomainTrackerPlugin,
+  domain: LifeDomain,
+  reminder: LifeDomainReminder,
+  dateKey: string
+): boolean {
+  // Archived states can no longer be logged, so their reminders never fire.
+  if (domain.states.find((s) => s.id === reminder.stateId)?.archived) return false;
+  const logs = plugin.getLogsForDate(dateKey, domain.id);
+  if (reminder.stateId) return !logs.some((e) => e.stateId === reminder.stateId);
+  return !logs.length;
+}
+
+export function describeReminder(domain: LifeDomain, reminder: LifeDomainReminder): string {
+  const state = reminder.stateId ? domain.states.find((s) => s.id === reminder.stateId) : undefined;
+  const target = state ? `${domain.name}: ${state.name}` : domain.name;
+  return `At ${reminder.time} if ${target || "Unnamed domain"} has no log today`;
+}
+
+function describeReminderMessage(domain: LifeDomain, reminder: LifeDomainReminder, missed: boolean): string {
+  const state = reminder.stateId ? domain.states.find((s) => s.id === reminder.stateId) : undefined;
+  const target = state ? `${state.name} in ${domain.name}` : domain.name;
+  const prefix = missed ? `Missed ${reminder.time} reminder` : "Reminder";
+  return `${prefix}: nothing logged for ${target || "Unnamed domain"} today.`;
+}
+
+/** When the reminder is due on the day `dateKey`; times before the day start hour fall on the next calendar date. */
+function reminderDueAt(reminder: LifeDomainReminder, dateKey: string, dayStartHour: number): number | null {
+  const match = reminder.time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return null;
+  const [y, m, d] = dateKey.split("-").map((v) => Number(v));
+  const hours = Number(match[1]);
+  const due = new Date(y, m - 1, hours < (dayStartHour || 0) ? d + 1 : d, hours, Number(match[2]));
+  return due.getTime();
+}
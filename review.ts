@@ -0,0 +1,367 @@
+import { Notice, TFile, normalizePath } from "obsidian";
+import LifeDomainTrackerPlugin, {
+  DomainLogEntry,
+  LifeDomain,
+  formatDuration,
+  getActiveStates,
+  getTodayKey,
+  getWallClock
+} from "./main";
+import { computeCompositeScores } from "./composite";
+import {
+  AGGREGATION_TYPE_LABELS,
+  DomainAggregateIndex,
+  aggregateFromIndex,
+  aggregateValue,
+  buildDomainAggregateIndex,
+  mergeAggregates
+} from "./view";
+
+export type ReviewPeriodKind = "week" | "month";
+
+export const DEFAULT_REVIEW_FOLDER = "Life Domain Tracker/reviews";
+export const DEFAULT_REVIEW_TEMPLATE_PATH = "Life Domain Tracker/Review template.md";
+
+/** Used when no template note is set. Every `{{placeholder}}` is listed in `REVIEW_PLACEHOLDERS`. */
+export const DEFAULT_REVIEW_TEMPLATE = `# {{title}}
+
+{{start}} – {{end}}, compared with {{previousStart}} – {{previousEnd}}.
+
+## Domains
+
+{{domains}}
+
+## Best and worst days
+
+{{days}}
+
+## States
+
+{{states}}
+
+## Highlights
+
+{{highlights}}
+
+## Notes
+
+{{notes}}
+`;
+
+export const REVIEW_PLACEHOLDERS = [
+  "title",
+  "start",
+  "end",
+  "previousStart",
+  "previousEnd",
+  "generated",
+  "domains",
+  "days",
+  "states",
+  "highlights",
+  "notes"
+];
+
+export interface ReviewPeriod {
+  kind: ReviewPeriodKind;
+  title: string;
+  /** File name of the note, e.g. `2024-W05` or `2024-02`. */
+  id: string;
+  dates: string[];
+  previousDates: string[];
+}
+
+/** The week (Monday to Sunday) or calendar month containing `dateKey`, with the one before it. */
+export function resolveReviewPeriod(kind: ReviewPeriodKind, dateKey: string): ReviewPeriod {
+  const [y, m, d] = dateKey.split("-").map((v) => Number(v));
+  if (kind === "week") {
+    const start = new Date(y, m - 1, d);
+    start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    const { year, week } = getIsoWeek(start);
+    const id = `${year}-W${String(week).padStart(2, "0")}`;
+    return {
+      kind,
+      title: `Week ${week}, ${year}`,
+      id,
+      dates: listDates(start, 7),
+      previousDates: listDates(new Date(start.getFullYear(), start.getMonth(), start.getDate() - 7), 7)
+    };
+  }
+  const start = new Date(y, m - 1, 1);
+  const previousStart = new Date(y, m - 2, 1);
+  return {
+    kind,
+    title: start.toLocaleDateString(undefined, { month: "long", year: "numeric" }),
+    id: getTodayKey(start).slice(0, 7),
+    dates: listDates(start, new Date(y, m, 0).getDate()),
+    previousDates: listDates(previousStart, new Date(y, m - 1, 0).getDate())
+  };
+}
+
+export function getReviewNotePath(plugin: LifeDomainTrackerPlugin, period: ReviewPeriod): string {
+  return normalizePath(`${plugin.settings.reviewFolder || DEFAULT_REVIEW_FOLDER}/${period.id}.md`);
+}
+
+/** Writes the review note for `period`, replacing an earlier one, and returns it. */
+export async function writeReviewNote(plugin: LifeDomainTrackerPlugin, period: ReviewPeriod): Promise<TFile> {
+  const { vault } = plugin.app;
+  const template = await loadReviewTemplate(plugin);
+  const content = buildReviewNote(plugin, period, template);
+  const path = getReviewNotePath(plugin, period);
+  await ensureParentFolder(plugin, path);
+  const existing = vault.getAbstractFileByPath(path);
+  if (existing instanceof TFile) {
+    await vault.modify(existing, content);
+    return existing;
+  }
+  return vault.create(path, content);
+}
+
+/**
+ * Copies the built-in template to the template note path, or the default path when none is set,
+ * and selects it. Returns null, with a notice, when that note already exists.
+ */
+export async function createReviewTemplate(plugin: LifeDomainTrackerPlugin): Promise<string | null> {
+  const path = normalizePath(plugin.settings.reviewTemplatePath || DEFAULT_REVIEW_TEMPLATE_PATH);
+  if (plugin.app.vault.getAbstractFileByPath(path)) {
+    new Notice(`${path} already exists.`);
+    return null;
+  }
+  await ensureParentFolder(plugin, path);
+  await plugin.app.vault.create(path, DEFAULT_REVIEW_TEMPLATE);
+  plugin.settings.reviewTemplatePath = path;
+  await plugin.saveSettings();
+  return path;
+}
+
+async function ensureParentFolder(plugin: LifeDomainTrackerPlugin, path: string) {
+  const folder = path.slice(0, path.lastIndexOf("/"));
+  if (folder && !(await plugin.app.vault.adapter.exists(folder))) await plugin.app.vault.createFolder(folder);
+}
+
+async function loadReviewTemplate(plugin: LifeDomainTrackerPlugin): Promise<string> {
+  const templatePath = plugin.settings.reviewTemplatePath.trim();
+  if (!templatePath) return DEFAULT_REVIEW_TEMPLATE;
+  const path = normalizePath(templatePath.endsWith(".md") ? templatePath : `${templatePath}.md`);
+  const file = plugin.app.vault.getAbstractFileByPath(path);
+  if (!(file instanceof TFile)) throw new Error(`Review template "${path}" not found.`);
+  return plugin.app.vault.read(file);
+}
+
+/**
+ * Fills in `template` for `period`. Aggregates come from the same index as the performance
+ * view, each domain using its own aggregation. Unknown placeholders are left as they are.
+ */
+export function buildReviewNote(plugin: LifeDomainTrackerPlugin, period: ReviewPeriod, template: string): string {
+  const index = buildDomainAggregateIndex(plugin);
+  const { dates, previousDates } = period;
+  // Archived domains still show up for periods in which they were logged.
+  const domains = plugin.settings.domains.filter(
+    (d) => !d.archived || mergeAggregates(index, dates, d.id).count > 0
+  );
+  const values: Record<string, string> = {
+    title: period.title,
+    start: dates[0],
+    end: dates[dates.length - 1],
+    previousStart: previousDates[0],
+    previousEnd: previousDates[previousDates.length - 1],
+    generated: new Date().toLocaleString(),
+    domains: renderDomainTable(period, domains, index),
+    days: renderBestWorstDays(dates, domains, index),
+    states: renderStates(plugin, dates, domains),
+    highlights: renderHighlights(plugin, period, domains, index),
+    notes: renderNotes(plugin, dates, domains)
+  };
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+}
+
+function renderDomainTable(period: ReviewPeriod, domains: LifeDomain[], index: DomainAggregateIndex): string {
+  if (!domains.length) return "_No domains configured._";
+  const current = period.kind === "week" ? "This week" : "This month";
+  const previous = period.kind === "week" ? "Previous week" : "Previous month";
+  const rows = [
+    `| Domain | Aggregation | ${current} | ${previous} | Change | Logs |`,
+    "| --- | --- | --- | --- | --- | --- |"
+  ];
+  for (const domain of domains) {
+    const now = mergeAggregates(index, period.dates, domain.id);
+    const before = mergeAggregates(index, period.previousDates, domain.id);
+    const value = aggregateValue(now, domain.aggregationType);
+    const previousValue = aggregateValue(before, domain.aggregationType);
+    const cells = [
+      escapeCell(domain.name || "Unnamed domain"),
+      AGGREGATION_TYPE_LABELS[domain.aggregationType],
+      now.count ? formatNumber(value) : "—",
+      before.count ? formatNumber(previousValue) : "—",
+      now.count && before.count ? formatChange(value - previousValue) : "—",
+      String(now.count)
+    ];
+    rows.push(`| ${cells.join(" | ")} |`);
+  }
+  return rows.join("\n");
+}
+
+function renderBestWorstDays(dates: string[], domains: LifeDomain[], index: DomainAggregateIndex): string {
+  const lines: string[] = [];
+  for (const domain of domains) {
+    const days = dates
+      .filter((dateKey) => index.get(dateKey)?.get(domain.id)?.count)
+      .map((dateKey) => ({ dateKey, value: aggregateFromIndex(index, dateKey, domain.id, domain.aggregationType) }));
+    if (!days.length) continue;
+    // Ties go to the earlier day.
+    const best = days.reduce((a, b) => (b.value > a.value ? b : a));
+    const worst = days.reduce((a, b) => (b.value < a.value ? b : a));
+    const name = domain.name || "Unnamed domain";
+    if (days.length === 1) {
+      lines.push(`- **${name}**: only logged on ${best.dateKey} (${formatNumber(best.value)})`);
+      continue;
+    }
+    lines.push(
+      `- **${name}**: best ${best.dateKey} (${formatNumber(best.value)}), ` +
+        `worst ${worst.dateKey} (${formatNumber(worst.value)})`
+    );
+  }
+  return lines.length ? lines.join("\n") : "_No logs in this period._";
+}
+
+function renderStates(plugin: LifeDomainTrackerPlugin, dates: string[], domains: LifeDomain[]): string {
+  const lines: string[] = [];
+  for (const domain of domains) {
+    const counts = new Map<string, number>();
+    for (const entry of collectEntries(plugin, dates, domain.id)) {
+      counts.set(entry.stateId, (counts.get(entry.stateId) ?? 0) + 1);
+    }
+    if (!counts.size) continue;
+    // Active states count even when never logged, so a neglected state shows up as least logged.
+    const active = getActiveStates(domain);
+    const ranked = domain.states
+      .filter((s) => counts.has(s.id) || active.includes(s))
+      .map((s) => ({ name: s.name || "Unnamed state", count: counts.get(s.id) ?? 0 }))
+      .sort((a, b) => b.count - a.count);
+    const most = ranked[0];
+    const least = ranked[ranked.length - 1];
+    const parts = [`most logged ${most.name} (${most.count}×)`];
+    if (ranked.length > 1) parts.push(`least logged ${least.name} (${least.count}×)`);
+    lines.push(`- **${domain.name || "Unnamed domain"}**: ${parts.join(", ")}`);
+  }
+  return lines.length ? lines.join("\n") : "_No logs in this period._";
+}
+
+/** Observations that need no goals: coverage, streaks, busiest day, direction of change and the life score. */
+function renderHighlights(
+  plugin: LifeDomainTrackerPlugin,
+  period: ReviewPeriod,
+  domains: LifeDomain[],
+  index: DomainAggregateIndex
+): string {
+  const { dates } = period;
+  const lines: string[] = [];
+  const logsPerDay = dates.map((dateKey) => {
+    let count = 0;
+    for (const agg of index.get(dateKey)?.values() ?? []) count += agg.count;
+    return count;
+  });
+  const loggedDays = logsPerDay.filter((count) => count > 0).length;
+  if (!loggedDays) return "_No logs in this period._";
+  lines.push(`- Logged on ${loggedDays} of ${dates.length} days.`);
+
+  let streak = 0;
+  let longestStreak = 0;
+  for (const count of logsPerDay) {
+    streak = count ? streak + 1 : 0;
+    longestStreak = Math.max(longestStreak, streak);
+  }
+  if (longestStreak > 1) lines.push(`- Longest logging streak: ${longestStreak} days in a row.`);
+
+  const most = Math.max(...logsPerDay);
+  lines.push(`- Busiest day: ${dates[logsPerDay.indexOf(most)]} with ${most} log${most === 1 ? "" : "s"}.`);
+
+  const improved: string[] = [];
+  const declined: string[] = [];
+  for (const domain of domains) {
+    const now = mergeAggregates(index, dates, domain.id);
+    const before = mergeAggregates(index, period.previousDates, domain.id);
+    if (!now.count || !before.count) continue;
+    const change = aggregateValue(now, domain.aggregationType) - aggregateValue(before, domain.aggregationType);
+    if (change > 0) improved.push(domain.name || "Unnamed domain");
+    if (change < 0) declined.push(domain.name || "Unnamed domain");
+  }
+  if (improved.length) lines.push(`- Up on the previous ${period.kind}: ${improved.join(", ")}.`);
+  if (declined.length) lines.push(`- Down on the previous ${period.kind}: ${declined.join(", ")}.`);
+
+  const composite = computeCompositeScores(plugin, index);
+  const scored = dates.filter((dateKey) => composite.has(dateKey));
+  if (scored.length) {
+    const best = scored.reduce((a, b) => (composite.get(b)! > composite.get(a)! ? b : a));
+    lines.push(`- Best life score: ${best} (${formatNumber(composite.get(best)!)}).`);
+  }
+
+  let longest: { domain: LifeDomain; entry: DomainLogEntry } | null = null;
+  for (const domain of domains) {
+    for (const entry of collectEntries(plugin, dates, domain.id)) {
+      if (entry.endTs === undefined) continue;
+      if (!longest || entry.endTs - entry.ts > longest.entry.endTs! - longest.entry.ts) longest = { domain, entry };
+    }
+  }
+  if (longest) {
+    const state = longest.domain.states.find((s) => s.id === longest!.entry.stateId);
+    lines.push(
+      `- Longest session: ${longest.domain.name || "Unnamed domain"} • ${state?.name || "Unknown state"}, ` +
+        `${formatDuration(longest.entry.endTs! - longest.entry.ts)}.`
+    );
+  }
+  return lines.join("\n");
+}
+
+function renderNotes(plugin: LifeDomainTrackerPlugin, dates: string[], domains: LifeDomain[]): string {
+  const sections: string[] = [];
+  for (const domain of domains) {
+    const lines: string[] = [];
+    for (const dateKey of dates) {
+      for (const entry of plugin.dataStore.logs[dateKey]?.[domain.id] ?? []) {
+        if (!entry.note) continue;
+        const state = domain.states.find((s) => s.id === entry.stateId);
+        const time = getWallClock(entry.ts, plugin.settings, entry.tzOffset).toISOString().slice(11, 16);
+        const note = entry.note.replace(/\s*\n\s*/g, " ");
+        lines.push(`- ${dateKey} ${time} • ${state?.name || "Unknown state"}: ${note}`);
+      }
+    }
+    if (lines.length) sections.push(`### ${domain.name || "Unnamed domain"}\n\n${lines.join("\n")}`);
+  }
+  return sections.length ? sections.join("\n\n") : "_No notes in this period._";
+}
+
+function collectEntries(plugin: LifeDomainTrackerPlugin, dates: string[], domainId: string): DomainLogEntry[] {
+  const entries: DomainLogEntry[] = [];
+  for (const dateKey of dates) entries.push(...(plugin.dataStore.logs[dateKey]?.[domainId] ?? []));
+  return entries;
+}
+
+function listDates(start: Date, days: number): string[] {
+  const dates: string[] = [];
+  for (let offset = 0; offset < days; offset++) {
+    dates.push(getTodayKey(new Date(start.getFullYear(), start.getMonth(), start.getDate() + offset)));
+  }
+  return dates;
+}
+
+/** ISO 8601 week: weeks start on Monday and belong to the year their Thursday falls in. */
+function getIsoWeek(monday: Date): { year: number; week: number } {
+  const thursday = Date.UTC(monday.getFullYear(), monday.getMonth(), monday.getDate() + 3);
+  const year = new Date(thursday).getUTCFullYear();
+  const dayOfYear = Math.round((thursday - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000));
+  return { year, week: Math.floor(dayOfYear / 7) + 1 };
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function formatChange(change: number): string {
+  if (change === 0) return "±0";
+  return change > 0 ? `+${formatNumber(change)}` : `−${formatNumber(-change)}`;
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, "\\|");
+}
@@ -1,5 +1,29 @@
 import { App, Notice, PluginSettingTab, Setting } from "obsidian";
-import LifeDomainTrackerPlugin, { LifeDomain, LifeDomainState } from "./main";
+import LifeDomainTrackerPlugin, {
+  AggregationType,
+  LifeDomain,
+  LifeDomainGoal,
+  LifeDomainReminder,
+  LifeDomainScale,
+  LifeDomainState,
+  StateScoreRange,
+  describeRekeyResult,
+  generateId,
+  getScoreScale
+} from "./main";
+import { DeleteDomainItemModal } from "./modals";
+import { GOAL_KIND_LABELS, describeGoal } from "./goals";
+import { describeReminder } from "./reminders";
+import { AGGREGATION_TYPE_LABELS } from "./view";
+import { nextStateColor, parseTags } from "./appearance";
+import { COMPOSITE_MISSING_DAY_LABELS, COMPOSITE_NORMALIZATION_LABELS } from "./composite";
+import { DEFAULT_LOG_FOLDER } from "./storage";
+import {
+  DEFAULT_REVIEW_FOLDER,
+  DEFAULT_REVIEW_TEMPLATE_PATH,
+  REVIEW_PLACEHOLDERS,
+  createReviewTemplate
+} from "./review";
 
 export class LifeDomainSettingsTab extends PluginSettingTab {
   plugin: LifeDomainTrackerPlugin;
@@ -26,10 +50,11 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
     this.plugin.settings.domains.forEach((domain, domainIndex) => {
       const domainContainer = containerEl.createDiv({ cls: "life-domain-block" });
       const domainCard = domainContainer.createDiv({ cls: "life-domain-card" });
+      domainCard.toggleClass("is-archived", !!domain.archived);
       const domainHeader = domainCard.createDiv({ cls: "life-domain-card-header" });
 
       new Setting(domainHeader)
-        .setName(`Domain ${domainIndex + 1}`)
+        .setName(`Domain ${domainIndex + 1}${domain.archived ? " (archived)" : ""}`)
         .addText((text) =>
           text
             .setPlaceholder("Domain Name")
@@ -41,10 +66,10 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
         )
         .addDropdown((dropdown) =>
           dropdown
-            .addOptions({ sum: "Sum", average: "Average", worst: "Worst Case" })
+            .addOptions(AGGREGATION_TYPE_LABELS)
             .setValue(domain.aggregationType ?? "sum")
             .onChange(async (value) => {
-              domain.aggregationType = value as "sum" | "average" | "worst";
+              domain.aggregationType = value as AggregationType;
               await this.plugin.saveSettings();
             })
         )
@@ -59,20 +84,81 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
         )
         .addExtraButton((btn) =>
           btn
-            .setIcon("trash-2")
-            .setTooltip("Delete Domain")
+            .setIcon(domain.archived ? "archive-restore" : "archive")
+            .setTooltip(domain.archived ? "Unarchive Domain" : "Archive Domain")
             .onClick(async () => {
-              this.plugin.settings.domains.splice(domainIndex, 1);
+              domain.archived = !domain.archived || undefined;
               await this.plugin.saveSettings();
+              this.plugin.notifyLogsChanged();
               this.display();
             })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash-2")
+            .setTooltip("Delete Domain")
+            .onClick(() => new DeleteDomainItemModal(this.app, this.plugin, domain, null, () => this.display()).open())
         );
 
+      new Setting(domainCard)
+        .setName("Life score weight")
+        .setDesc("Share of the composite life score. 0 leaves this domain out.")
+        .addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.min = "0";
+          text.inputEl.addClass("life-domain-goal-target");
+          text.setValue(String(domain.weight ?? 1)).onChange(async (value) => {
+            const parsed = Number(value);
+            if (!value.trim() || !Number.isFinite(parsed) || parsed < 0) return;
+            domain.weight = parsed;
+            await this.plugin.saveSettings();
+          });
+        });
+
+      this.renderAppearance(domainCard, domain, "Domain");
+
+      const scale = getScoreScale(domain);
+      const scaleSetting = new Setting(domainCard)
+        .setName("Score scale")
+        .setDesc("Minimum, maximum, step and neutral score. States above neutral are GOOD, below it BAD.");
+      const scaleFields: { key: keyof LifeDomainScale; label: string }[] = [
+        { key: "min", label: "Min" },
+        { key: "max", label: "Max" },
+        { key: "step", label: "Step" },
+        { key: "neutral", label: "Neutral" }
+      ];
+      for (const field of scaleFields) {
+        scaleSetting.addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.addClass("life-domain-goal-target");
+          text.inputEl.setAttr("aria-label", field.label);
+          text.setPlaceholder(field.label).setValue(String(scale[field.key]));
+          // Applied on change rather than per keystroke, since the state sliders are rebuilt.
+          text.inputEl.addEventListener("change", async () => {
+            const parsed = Number(text.getValue());
+            const next = { ...getScoreScale(domain), [field.key]: parsed };
+            const error = validateScale(next, text.getValue());
+            if (error) {
+              new Notice(error);
+              text.setValue(String(getScoreScale(domain)[field.key]));
+              return;
+            }
+            domain.scale = next;
+            const clamped = clampStateScores(domain);
+            if (clamped) {
+              new Notice(`Moved ${clamped} state score${clamped === 1 ? "" : "s"} into the new scale.`);
+            }
+            await this.plugin.saveSettings();
+            this.display();
+          });
+        });
+      }
+
       const statesHeader = domainCard.createDiv({ cls: "life-domain-states-header" });
       statesHeader.createEl("h4", { text: "States" });
       const addStateBtn = statesHeader.createEl("button", { text: "Add State" });
       addStateBtn.addEventListener("click", async () => {
-        domain.states.push(createState());
+        domain.states.push(createState(domain));
         await this.plugin.saveSettings();
         this.display();
       });
@@ -80,9 +166,10 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
       const statesBody = domainCard.createDiv({ cls: "life-domain-states-body" });
       domain.states.forEach((state, stateIndex) => {
         const stateContainer = statesBody.createDiv({ cls: "life-domain-state" });
+        stateContainer.toggleClass("is-archived", !!state.archived);
 
         new Setting(stateContainer)
-          .setName(`State ${stateIndex + 1}`)
+          .setName(`State ${stateIndex + 1}${state.archived ? " (archived)" : ""}`)
           .addText((text) => {
             text
               .setPlaceholder("State name")
@@ -93,9 +180,19 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
               });
             text.inputEl.addClass("life-domain-state-name-input");
           })
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions({ label: "Fixed score", measured: "Measured", duration: "Session" })
+              .setValue(state.kind ?? "label")
+              .onChange(async (value) => {
+                state.kind = value as NonNullable<LifeDomainState["kind"]>;
+                await this.plugin.saveSettings();
+                this.display();
+              })
+          )
           .addSlider((slider) =>
             slider
-              .setLimits(-2, 2, 1)
+              .setLimits(scale.min, scale.max, scale.step)
               .setValue(state.score ?? 0)
               .setDynamicTooltip()
               .onChange(async (value) => {
@@ -103,22 +200,521 @@ export class LifeDomainSettingsTab extends PluginSettingTab {
                 await this.plugin.saveSettings();
               })
           )
+          .addExtraButton((btn) =>
+            btn
+              .setIcon(state.archived ? "archive-restore" : "archive")
+              .setTooltip(state.archived ? "Unarchive State" : "Archive State")
+              .onClick(async () => {
+                state.archived = !state.archived || undefined;
+                await this.plugin.saveSettings();
+                this.plugin.notifyLogsChanged();
+                this.display();
+              })
+          )
           .addExtraButton((btn) =>
             btn
               .setIcon("trash-2")
               .setTooltip("Delete State")
+              .onClick(() =>
+                new DeleteDomainItemModal(this.app, this.plugin, domain, state, () => this.display()).open()
+              )
+          );
+
+        this.renderAppearance(stateContainer, state, "State");
+        if (state.kind === "measured") this.renderMeasuredState(stateContainer, state);
+      });
+
+      const goalsHeader = domainCard.createDiv({ cls: "life-domain-states-header" });
+      goalsHeader.createEl("h4", { text: "Goals" });
+      const addGoalBtn = goalsHeader.createEl("button", { text: "Add Goal" });
+      addGoalBtn.addEventListener("click", async () => {
+        if (!domain.goals) domain.goals = [];
+        domain.goals.push(createGoal());
+        await this.plugin.saveSettings();
+        this.display();
+      });
+
+      const goalsBody = domainCard.createDiv({ cls: "life-domain-states-body" });
+      (domain.goals ?? []).forEach((goal, goalIndex) => {
+        const goalContainer = goalsBody.createDiv({ cls: "life-domain-state" });
+        const setting = new Setting(goalContainer)
+          .setName(`Goal ${goalIndex + 1}`)
+          .setDesc(describeGoal(domain, goal))
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions(GOAL_KIND_LABELS)
+              .setValue(goal.kind)
+              .onChange(async (value) => {
+                goal.kind = value as LifeDomainGoal["kind"];
+                if (goal.kind === "state-count" && !goal.stateId) goal.stateId = domain.states[0]?.id;
+                await this.plugin.saveSettings();
+                this.display();
+              })
+          );
+
+        if (goal.kind === "state-count") {
+          setting.addDropdown((dropdown) => {
+            for (const state of domain.states) dropdown.addOption(state.id, state.name || "Unnamed");
+            dropdown.setValue(goal.stateId ?? "").onChange(async (value) => {
+              goal.stateId = value;
+              await this.plugin.saveSettings();
+              setting.setDesc(describeGoal(domain, goal));
+            });
+          });
+        }
+
+        setting
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions({ gte: "At least", lte: "At most" })
+              .setValue(goal.comparator)
+              .onChange(async (value) => {
+                goal.comparator = value as LifeDomainGoal["comparator"];
+                await this.plugin.saveSettings();
+                setting.setDesc(describeGoal(domain, goal));
+              })
+          )
+          .addText((text) => {
+            text.inputEl.type = "number";
+            text.inputEl.addClass("life-domain-goal-target");
+            text.setValue(String(goal.target)).onChange(async (value) => {
+              const parsed = Number(value);
+              if (!value.trim() || !Number.isFinite(parsed)) return;
+              goal.target = parsed;
+              await this.plugin.saveSettings();
+              setting.setDesc(describeGoal(domain, goal));
+            });
+          })
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOptions({ day: "Per day", week: "Per week" })
+              .setValue(goal.period)
+              .onChange(async (value) => {
+                goal.period = value as LifeDomainGoal["period"];
+                await this.plugin.saveSettings();
+                setting.setDesc(describeGoal(domain, goal));
+              })
+          )
+          .addExtraButton((btn) =>
+            btn
+              .setIcon("trash-2")
+              .setTooltip("Delete Goal")
+              .onClick(async () => {
+                domain.goals?.splice(goalIndex, 1);
+                await this.plugin.saveSettings();
+                this.display();
+              })
+          );
+      });
+
+      const remindersHeader = domainCard.createDiv({ cls: "life-domain-states-header" });
+      remindersHeader.createEl("h4", { text: "Reminders" });
+      const addReminderBtn = remindersHeader.createEl("button", { text: "Add Reminder" });
+      addReminderBtn.addEventListener("click", async () => {
+        if (!domain.reminders) domain.reminders = [];
+        domain.reminders.push(createReminder());
+        await this.plugin.saveSettings();
+        this.display();
+      });
+
+      const remindersBody = domainCard.createDiv({ cls: "life-domain-states-body" });
+      (domain.reminders ?? []).forEach((reminder, reminderIndex) => {
+        const reminderContainer = remindersBody.createDiv({ cls: "life-domain-state" });
+        const setting = new Setting(reminderContainer)
+          .setName(`Reminder ${reminderIndex + 1}`)
+          .setDesc(describeReminder(domain, reminder))
+          .addText((text) => {
+            text.inputEl.type = "time";
+            text.setValue(reminder.time).onChange(async (value) => {
+              if (!/^\d{1,2}:\d{2}$/.test(value)) return;
+              reminder.time = value;
+              await this.plugin.saveSettings();
+              setting.setDesc(describeReminder(domain, reminder));
+            });
+          })
+          .addDropdown((dropdown) => {
+            dropdown.addOption("", "Any state");
+            for (const state of domain.states) dropdown.addOption(state.id, state.name || "Unnamed");
+            dropdown.setValue(reminder.stateId ?? "").onChange(async (value) => {
+              reminder.stateId = value || undefined;
+              await this.plugin.saveSettings();
+              setting.setDesc(describeReminder(domain, reminder));
+            });
+          })
+          .addToggle((toggle) =>
+            toggle.setValue(reminder.enabled).onChange(async (value) => {
+              reminder.enabled = value;
+              await this.plugin.saveSettings();
+            })
+          )
+          .addExtraButton((btn) =>
+            btn
+              .setIcon("trash-2")
+              .setTooltip("Delete Reminder")
               .onClick(async () => {
-                domain.states.splice(stateIndex, 1);
+                domain.reminders?.splice(reminderIndex, 1);
                 await this.plugin.saveSettings();
                 this.display();
               })
           );
       });
+    });
+
+    containerEl.createEl("h3", { text: "Days" });
+
+    const hourOptions: Record<string, string> = {};
+    for (let hour = 0; hour < 24; hour++) {
+      const display = hour % 12 === 0 ? 12 : hour % 12;
+      hourOptions[String(hour)] = `${display} ${hour >= 12 ? "PM" : "AM"}${hour === 0 ? " (midnight)" : ""}`;
+    }
+    new Setting(containerEl)
+      .setName("Day starts at")
+      .setDesc("Logs before this hour count towards the previous day, so a late night stays with that day.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(hourOptions)
+          .setValue(String(this.plugin.settings.dayStartHour))
+          .onChange(async (value) => {
+            new Notice(describeRekeyResult(await this.plugin.setDayBoundary({ dayStartHour: parseInt(value, 10) })));
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Use the time zone logs were recorded in")
+      .setDesc("Date each log by the local time where it was made, so travelling does not move past logs between days.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.useLoggedTimeZone).onChange(async (value) => {
+          new Notice(describeRekeyResult(await this.plugin.setDayBoundary({ useLoggedTimeZone: value })));
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Rebuild log dates")
+      .setDesc("File every log under the day it falls on with these settings. Runs automatically when they change.")
+      .addButton((btn) =>
+        btn.setButtonText("Rebuild").onClick(async () => {
+          new Notice(describeRekeyResult(await this.plugin.rekeyLogs()));
+        })
+      );
+
+    containerEl.createEl("h3", { text: "Life score" });
+
+    new Setting(containerEl)
+      .setName("Normalisation")
+      .setDesc("How each domain's daily aggregate is scaled before weighting, so domains are comparable.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(COMPOSITE_NORMALIZATION_LABELS)
+          .setValue(this.plugin.settings.compositeNormalization)
+          .onChange(async (value) => {
+            this.plugin.settings.compositeNormalization = value as "none" | "scale" | "zscore";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Days without logs")
+      .setDesc("How a domain with nothing logged on a day counts towards that day's life score.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions(COMPOSITE_MISSING_DAY_LABELS)
+          .setValue(this.plugin.settings.compositeMissingDays)
+          .onChange(async (value) => {
+            this.plugin.settings.compositeMissingDays = value as "skip" | "zero" | "carry";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    containerEl.createEl("h3", { text: "Commands" });
+
+    new Setting(containerEl)
+      .setName("Quick-log commands with note")
+      .setDesc("Also register a \"with note\" variant of every quick-log command that asks for a note first.")
+      .addToggle((toggle) =>
+        toggle.setValue(this.plugin.settings.quickLogWithNote).onChange(async (value) => {
+          this.plugin.settings.quickLogWithNote = value;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    containerEl.createEl("h3", { text: "Reminders" });
+
+    new Setting(containerEl)
+      .setName("Reminder style")
+      .setDesc(
+        "Show due reminders as notices or as a banner that stays until handled. " +
+          "Reminders missed while Obsidian was closed show on the next start, for the current day only."
+      )
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ notice: "Notice", banner: "Banner" })
+          .setValue(this.plugin.settings.reminderStyle)
+          .onChange(async (value) => {
+            this.plugin.settings.reminderStyle = value as "notice" | "banner";
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Snooze length")
+      .setDesc("Minutes to wait before a snoozed reminder fires again.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+        text
+          .setValue(String(this.plugin.settings.reminderSnoozeMinutes))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            if (!Number.isFinite(parsed) || parsed < 1) return;
+            this.plugin.settings.reminderSnoozeMinutes = parsed;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    containerEl.createEl("h3", { text: "Log storage" });
+
+    const inVault = this.plugin.settings.logStorage === "vault";
+    new Setting(containerEl)
+      .setName("Log folder")
+      .setDesc(
+        inVault
+          ? "Logs are kept here as one JSON Lines file per month. Move them back to plugin data to change the folder."
+          : "Vault folder for month files when logs are moved out of plugin data."
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_LOG_FOLDER)
+          .setValue(this.plugin.settings.logFolder)
+          .setDisabled(inVault)
+          .onChange(async (value) => {
+            this.plugin.settings.logFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName(inVault ? "Logs are stored as vault files" : "Logs are stored in plugin data")
+      .setDesc(
+        inVault
+          ? "Move every log back into data.json. The month files are moved to the trash."
+          : "Move every log into month files in the log folder. Only changed months are rewritten on save."
+      )
+      .addButton((btn) =>
+        btn.setButtonText(inVault ? "Move to plugin data" : "Move to vault files").onClick(async () => {
+          btn.setDisabled(true);
+          if (await this.plugin.setLogStorage(inVault ? "data" : "vault")) {
+            new Notice(inVault ? "Logs moved to plugin data." : `Logs moved to ${this.plugin.logStore.getFolder()}.`);
+          }
+          this.display();
+        })
+      );
+
+    containerEl.createEl("h3", { text: "Reviews" });
+
+    new Setting(containerEl)
+      .setName("Review folder")
+      .setDesc("Vault folder for notes made by the Generate Review Note command.")
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_REVIEW_FOLDER)
+          .setValue(this.plugin.settings.reviewFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.reviewFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Review template")
+      .setDesc(
+        `Note to fill in; leave empty for the built-in template. Placeholders: ` +
+          REVIEW_PLACEHOLDERS.map((key) => `{{${key}}}`).join(", ")
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_REVIEW_TEMPLATE_PATH)
+          .setValue(this.plugin.settings.reviewTemplatePath)
+          .onChange(async (value) => {
+            this.plugin.settings.reviewTemplatePath = value.trim();
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Create from built-in").onClick(async () => {
+          const path = await createReviewTemplate(this.plugin);
+          if (path) new Notice(`Created ${path}. Edit it to change future reviews.`);
+          this.display();
+        })
+      );
+
+    containerEl.createEl("h3", { text: "Backups" });
+
+    new Setting(containerEl)
+      .setName("Backup folder")
+      .setDesc("Vault folder that full backups are written to.")
+      .addText((text) =>
+        text
+          .setPlaceholder("life-domain-tracker-backups")
+          .setValue(this.plugin.settings.backupFolder)
+          .onChange(async (value) => {
+            this.plugin.settings.backupFolder = value.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Scheduled backups")
+      .setDesc("Write a backup automatically while Obsidian is open.")
+      .addDropdown((dropdown) =>
+        dropdown
+          .addOptions({ "0": "Off", "6": "Every 6 hours", "24": "Daily", "168": "Weekly" })
+          .setValue(String(this.plugin.settings.backupIntervalHours))
+          .onChange(async (value) => {
+            this.plugin.settings.backupIntervalHours = Number(value);
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Backups to keep")
+      .setDesc("Older scheduled backups are deleted. Manual exports are never removed.")
+      .addText((text) => {
+        text.inputEl.type = "number";
+        text.inputEl.min = "1";
+        text
+          .setValue(String(this.plugin.settings.backupRetention))
+          .onChange(async (value) => {
+            const parsed = parseInt(value, 10);
+            if (!Number.isFinite(parsed) || parsed < 1) return;
+            this.plugin.settings.backupRetention = parsed;
+            await this.plugin.saveSettings();
+          });
+      });
+
+    new Setting(containerEl)
+      .setName("Back up now")
+      .addButton((btn) =>
+        btn.setButtonText("Export everything").onClick(() => void this.plugin.exportBackup())
+      );
+  }
 
+  /** Colour, Lucide icon and tags shared by domains and states. */
+  private renderAppearance(container: HTMLElement, item: LifeDomain | LifeDomainState, kind: "Domain" | "State") {
+    new Setting(container)
+      .setName(`${kind} appearance`)
+      .setDesc("Colour, Lucide icon name (e.g. moon, dumbbell) and tags separated by commas.")
+      .addColorPicker((picker) =>
+        picker.setValue(item.color ?? "#2a9d8f").onChange(async (value) => {
+          item.color = value;
+          await this.plugin.saveSettings();
+        })
+      )
+      .addExtraButton((btn) =>
+        btn
+          .setIcon("rotate-ccw")
+          .setTooltip("Use default colour")
+          .onClick(async () => {
+            item.color = undefined;
+            await this.plugin.saveSettings();
+            this.display();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Icon")
+          .setValue(item.icon ?? "")
+          .onChange(async (value) => {
+            item.icon = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("Tags")
+          .setValue((item.tags ?? []).join(", "))
+          .onChange(async (value) => {
+            const tags = parseTags(value);
+            item.tags = tags.length ? tags : undefined;
+            await this.plugin.saveSettings();
+          })
+      );
+  }
+
+  /** Unit and value-to-score ranges for a measured state. The slider score is the fallback. */
+  private renderMeasuredState(container: HTMLElement, state: LifeDomainState) {
+    new Setting(container)
+      .setName("Unit")
+      .setDesc("Shown when logging, e.g. h, pages or glasses. The slider score applies when no range matches.")
+      .addText((text) =>
+        text
+          .setPlaceholder("Unit")
+          .setValue(state.unit ?? "")
+          .onChange(async (value) => {
+            state.unit = value.trim() || undefined;
+            await this.plugin.saveSettings();
+          })
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Add range").onClick(async () => {
+          if (!state.scoreRanges) state.scoreRanges = [];
+          state.scoreRanges.push(createScoreRange());
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    (state.scoreRanges ?? []).forEach((range, rangeIndex) => {
+      const setting = new Setting(container)
+        .setName(`Range ${rangeIndex + 1}`)
+        .setDesc("From (inclusive), to (exclusive), score");
+      const bounds: ("min" | "max")[] = ["min", "max"];
+      for (const bound of bounds) {
+        setting.addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.addClass("life-domain-goal-target");
+          text
+            .setPlaceholder(bound === "min" ? "From" : "To")
+            .setValue(range[bound] === undefined ? "" : String(range[bound]))
+            .onChange(async (value) => {
+              const parsed = Number(value);
+              if (value.trim() && !Number.isFinite(parsed)) return;
+              range[bound] = value.trim() ? parsed : undefined;
+              await this.plugin.saveSettings();
+            });
+        });
+      }
+      setting
+        .addText((text) => {
+          text.inputEl.type = "number";
+          text.inputEl.addClass("life-domain-goal-target");
+          text
+            .setPlaceholder("Score")
+            .setValue(String(range.score))
+            .onChange(async (value) => {
+              const parsed = Number(value);
+              if (!value.trim() || !Number.isFinite(parsed)) return;
+              range.score = parsed;
+              await this.plugin.saveSettings();
+            });
+        })
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash-2")
+            .setTooltip("Delete Range")
+            .onClick(async () => {
+              state.scoreRanges?.splice(rangeIndex, 1);
+              await this.plugin.saveSettings();
+              this.display();
+            })
+        );
     });
   }
 }
 
+function createScoreRange(): StateScoreRange {
+  return { score: 0 };
+}
+
 function createDomain(): LifeDomain {
   return {
     id: generateId(),
@@ -128,14 +724,53 @@ function createDomain(): LifeDomain {
   };
 }
 
-function createState(): LifeDomainState {
+function createState(domain: LifeDomain): LifeDomainState {
   return {
     id: generateId(),
     name: "",
-    score: 0
+    score: getScoreScale(domain).neutral,
+    color: nextStateColor(domain)
+  };
+}
+
+function validateScale(scale: LifeDomainScale, rawValue: string): string | null {
+  if (!rawValue.trim() || Object.values(scale).some((v) => !Number.isFinite(v))) return "Enter a number.";
+  if (scale.min >= scale.max) return "The scale minimum must be below its maximum.";
+  if (scale.step <= 0) return "The scale step must be greater than 0.";
+  if (scale.neutral < scale.min || scale.neutral > scale.max) return "The neutral score must be within the scale.";
+  return null;
+}
+
+/** Clamps state and measured range scores that fall outside the domain's scale and returns how many changed. */
+function clampStateScores(domain: LifeDomain): number {
+  const { min, max } = getScoreScale(domain);
+  const targets: { score: number }[] = [];
+  for (const state of domain.states) targets.push(state, ...(state.scoreRanges ?? []));
+  let clamped = 0;
+  for (const target of targets) {
+    const score = Math.min(max, Math.max(min, target.score));
+    if (score !== target.score) {
+      target.score = score;
+      clamped++;
+    }
+  }
+  return clamped;
+}
+
+function createGoal(): LifeDomainGoal {
+  return {
+    id: generateId(),
+    kind: "aggregate",
+    comparator: "gte",
+    target: 1,
+    period: "day"
   };
 }
 
-function generateId(): string {
-  return Math.random().toString(36).slice(2, 10) + Date.now().toString(36).slice(-4);
+function createReminder(): LifeDomainReminder {
+  return {
+    id: generateId(),
+    time: "21:00",
+    enabled: true
+  };
 }
@@ -0,0 +1,194 @@
+import { normalizePath } from "obsidian";
+import LifeDomainTrackerPlugin, { DomainLogEntry, LifeDomainDataStore } from "./main";
+
+export const DEFAULT_LOG_FOLDER = "Life Domain Tracker/logs";
+const SHARD_PATTERN = /^(\d{4}-\d{2})\.jsonl$/;
+const NAMES_FILE = "names.json";
+
+/**
+ * One line of a month file: the entry plus where it is filed, and an ISO time for readers.
+ * Names live in the names file instead, so renaming a domain or state leaves the months alone.
+ * Lines written by earlier versions also carry `domain` and `state` names, which are ignored.
+ */
+type ShardLine = DomainLogEntry & {
+  date: string;
+  domainId: string;
+  time?: string;
+};
+
+/**
+ * Keeps logs in one JSON Lines file per month (`2024-05.jsonl`) inside `logFolder`,
+ * while settings stay in data.json. Remembers what each file was last read or written
+ * as, so a save only rewrites the months that changed. `names.json` maps domain and
+ * state ids to names for anyone reading the files outside the plugin.
+ */
+export class VaultLogStore {
+  plugin: LifeDomainTrackerPlugin;
+  private written = new Map<string, string>();
+  private writtenNames: string | null = null;
+
+  constructor(plugin: LifeDomainTrackerPlugin) {
+    this.plugin = plugin;
+  }
+
+  /** Forgets what was written, so the next save writes every month. */
+  reset() {
+    this.written.clear();
+    this.writtenNames = null;
+  }
+
+  /** Reads every month file. Throws on a line that is not valid JSON rather than dropping it. */
+  async load(): Promise<LifeDomainDataStore["logs"]> {
+    this.reset();
+    const logs: LifeDomainDataStore["logs"] = {};
+    for (const [month, path] of await this.listShards()) {
+      const text = await this.plugin.app.vault.adapter.read(path);
+      Object.assign(logs, parseShard(text, path));
+      this.written.set(month, text);
+    }
+    return logs;
+  }
+
+  /**
+   * For a month file that changed outside this plugin, e.g. through sync, returns its month with
+   * the contents last read or written and the contents now. Returns null for other files and
+   * for this store's own writes.
+   */
+  async readExternalChange(
+    path: string
+  ): Promise<{ month: string; base: LifeDomainDataStore["logs"]; remote: LifeDomainDataStore["logs"] } | null> {
+    const folder = this.getFolder();
+    const match = path.startsWith(`${folder}/`) ? path.slice(folder.length + 1).match(SHARD_PATTERN) : null;
+    if (!match) return null;
+    const month = match[1];
+    const adapter = this.plugin.app.vault.adapter;
+    const text = (await adapter.exists(path)) ? await adapter.read(path) : "";
+    const previous = this.written.get(month) ?? "";
+    if (text === previous) return null;
+    const result = { month, base: parseShard(previous, path), remote: parseShard(text, path) };
+    this.written.set(month, text);
+    return result;
+  }
+
+  /** Writes the months whose contents changed and removes files for months that are now empty. */
+  async save(logs: LifeDomainDataStore["logs"]): Promise<number> {
+    const folder = this.getFolder();
+    const adapter = this.plugin.app.vault.adapter;
+    const shards = this.serialize(logs);
+    let writes = 0;
+    for (const [month, text] of shards) {
+      if (this.written.get(month) === text) continue;
+      if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+      // Remembered before writing, so the modify event for this write is recognised as our own.
+      const previous = this.written.get(month);
+      this.written.set(month, text);
+      try {
+        await adapter.write(`${folder}/${month}.jsonl`, text);
+      } catch (error) {
+        if (previous === undefined) this.written.delete(month);
+        else this.written.set(month, previous);
+        throw error;
+      }
+      writes++;
+    }
+    // Only months this store has seen are removed, so a failed read never deletes anything.
+    for (const month of Array.from(this.written.keys())) {
+      if (shards.has(month)) continue;
+      const path = `${folder}/${month}.jsonl`;
+      this.written.delete(month);
+      if (await adapter.exists(path)) await adapter.remove(path);
+      writes++;
+    }
+    if (shards.size) {
+      const names = this.serializeNames();
+      if (this.writtenNames !== names) {
+        if (!(await adapter.exists(folder))) await adapter.mkdir(folder);
+        await adapter.write(`${folder}/${NAMES_FILE}`, names);
+        this.writtenNames = names;
+      }
+    }
+    return writes;
+  }
+
+  async hasShards(): Promise<boolean> {
+    return (await this.listShards()).size > 0;
+  }
+
+  /** Moves every month file and the names file to the trash. */
+  async removeShards() {
+    const adapter = this.plugin.app.vault.adapter;
+    const paths = Array.from((await this.listShards()).values());
+    const namesPath = `${this.getFolder()}/${NAMES_FILE}`;
+    if (await adapter.exists(namesPath)) paths.push(namesPath);
+    for (const path of paths) {
+      if (!(await adapter.trashSystem(path))) await adapter.trashLocal(path);
+    }
+    this.reset();
+  }
+
+  getFolder(): string {
+    return normalizePath(this.plugin.settings.logFolder || DEFAULT_LOG_FOLDER);
+  }
+
+  private async listShards(): Promise<Map<string, string>> {
+    const folder = this.getFolder();
+    const adapter = this.plugin.app.vault.adapter;
+    const shards = new Map<string, string>();
+    if (!(await adapter.exists(folder))) return shards;
+    for (const path of (await adapter.list(folder)).files.sort()) {
+      const match = path.split("/").pop()?.match(SHARD_PATTERN);
+      if (match) shards.set(match[1], path);
+    }
+    return shards;
+  }
+
+  private serialize(logs: LifeDomainDataStore["logs"]): Map<string, string> {
+    const lines = new Map<string, string[]>();
+    for (const date of Object.keys(logs).sort()) {
+      const month = date.slice(0, 7);
+      if (!lines.has(month)) lines.set(month, []);
+      for (const [domainId, entries] of Object.entries(logs[date])) {
+        for (const entry of entries) {
+          const line: ShardLine = { date, time: new Date(entry.ts).toISOString(), domainId, ...entry };
+          lines.get(month)!.push(JSON.stringify(line));
+        }
+      }
+    }
+    const shards = new Map<string, string>();
+    for (const [month, monthLines] of lines) {
+      if (monthLines.length) shards.set(month, `${monthLines.join("\n")}\n`);
+    }
+    return shards;
+  }
+
+  private serializeNames(): string {
+    const domains: Record<string, { name: string; states: Record<string, string> }> = {};
+    for (const domain of this.plugin.settings.domains) {
+      const states: Record<string, string> = {};
+      for (const state of domain.states) states[state.id] = state.name;
+      domains[domain.id] = { name: domain.name, states };
+    }
+    return `${JSON.stringify({ domains }, null, 2)}\n`;
+  }
+}
+
+function parseShard(text: string, path: string): LifeDomainDataStore["logs"] {
+  const logs: LifeDomainDataStore["logs"] = {};
+  text.split("\n").forEach((line, index) => {
+    if (!line.trim()) return;
+    let parsed: ShardLine & { domain?: string; state?: string };
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of ${path} is not valid JSON. Fix or remove it and reload.`);
+    }
+    const { date, domainId, domain, state, time, ...entry } = parsed;
+    if (!logs[date]) logs[date] = {};
+    if (!logs[date][domainId]) logs[date][domainId] = [];
+    logs[date][domainId].push(entry);
+  });
+  for (const domains of Object.values(logs)) {
+    for (const entries of Object.values(domains)) entries.sort((a, b) => a.ts - b.ts);
+  }
+  return logs;
+}
@@ -0,0 +1,235 @@
+import {
+  DomainLogEntry,
+  LifeDomain,
+  LifeDomainDataStore,
+  LifeDomainSettings,
+  LifeDomainStorage,
+  RunningSession
+} from "./main";
+
+// Settings that describe this device rather than the shared data.
+const DEVICE_SETTINGS: (keyof LifeDomainSettings)[] = ["lastBackupAt", "logStorage", "logFolder"];
+
+/** A setting, or a whole domain, changed differently here and on another device since they last agreed. */
+export interface SettingsConflict {
+  /** `domain:<id>` for a domain, otherwise a settings key. */
+  key: string;
+  label: string;
+  /** Undefined where that side deleted the domain or cleared the setting. */
+  local: unknown;
+  remote: unknown;
+}
+
+export interface LogMergeResult {
+  logs: LifeDomainDataStore["logs"];
+  added: number;
+  removed: number;
+  updated: number;
+}
+
+export interface SyncMergeResult extends LogMergeResult {
+  storage: LifeDomainStorage;
+  conflicts: SettingsConflict[];
+}
+
+type FiledEntry = { dateKey: string; domainId: string; entry: DomainLogEntry };
+
+/**
+ * Three-way merge of log entries, matched by id. Entries added on either side are kept;
+ * an entry deleted or edited on one side takes that side's version, unless this device
+ * changed it too, in which case this device's version wins.
+ */
+export function mergeLogs(
+  base: LifeDomainDataStore["logs"],
+  local: LifeDomainDataStore["logs"],
+  remote: LifeDomainDataStore["logs"]
+): LogMergeResult {
+  const merged = mergeById(indexLogs(base), indexLogs(local), indexLogs(remote));
+  const logs: LifeDomainDataStore["logs"] = {};
+  for (const { dateKey, domainId, entry } of merged.items.values()) {
+    if (!logs[dateKey]) logs[dateKey] = {};
+    if (!logs[dateKey][domainId]) logs[dateKey][domainId] = [];
+    logs[dateKey][domainId].push(entry);
+  }
+  for (const domains of Object.values(logs)) {
+    for (const entries of Object.values(domains)) entries.sort((a, b) => a.ts - b.ts);
+  }
+  return { logs, added: merged.added, removed: merged.removed, updated: merged.updated };
+}
+
+/**
+ * Merges data changed on another device (`remote`) into this device's data (`local`), using
+ * `base`, the data both last agreed on. Settings changed on both sides are returned as
+ * conflicts and keep this device's value until resolved. Logs are only merged when
+ * `includeLogs` is set, since with vault files data.json carries no logs.
+ */
+export function mergeStorage(
+  base: LifeDomainStorage | null,
+  local: LifeDomainStorage,
+  remote: LifeDomainStorage,
+  includeLogs: boolean
+): SyncMergeResult {
+  const baseSettings = base?.settings ?? ({ domains: [] } as unknown as LifeDomainSettings);
+  const { settings, conflicts } = mergeSettings(baseSettings, local.settings, remote.settings);
+
+  const logResult: LogMergeResult = includeLogs
+    ? mergeLogs(base?.data.logs ?? {}, local.data.logs, remote.data.logs)
+    : { logs: local.data.logs, added: 0, removed: 0, updated: 0 };
+
+  const sessions = mergeById(
+    indexSessions(base?.data.runningSessions),
+    indexSessions(local.data.runningSessions),
+    indexSessions(remote.data.runningSessions)
+  );
+  const trashIds = new Set((local.data.trash ?? []).map((t) => t.entry.id));
+  const data: LifeDomainDataStore = {
+    ...local.data,
+    logs: logResult.logs,
+    runningSessions: Array.from(sessions.items.values()),
+    reminderState: { ...remote.data.reminderState, ...local.data.reminderState },
+    trash: [...(local.data.trash ?? []), ...(remote.data.trash ?? []).filter((t) => !trashIds.has(t.entry.id))]
+  };
+  return { ...logResult, storage: { ...local, settings, data }, conflicts };
+}
+
+/** Applies the other device's side of a conflict. */
+export function applyRemoteSide(settings: LifeDomainSettings, conflict: SettingsConflict) {
+  if (conflict.key.startsWith("domain:")) {
+    const id = conflict.key.slice("domain:".length);
+    const index = settings.domains.findIndex((d) => d.id === id);
+    const remote = conflict.remote as LifeDomain | undefined;
+    if (!remote) {
+      if (index >= 0) settings.domains.splice(index, 1);
+    } else if (index >= 0) {
+      settings.domains[index] = clone(remote);
+    } else {
+      settings.domains.push(clone(remote));
+    }
+    return;
+  }
+  (settings as unknown as Record<string, unknown>)[conflict.key] = clone(conflict.remote);
+}
+
+export function describeConflictSide(conflict: SettingsConflict, side: "local" | "remote"): string {
+  const value = conflict[side];
+  if (conflict.key.startsWith("domain:")) {
+    if (!value) return "Deleted";
+    const domain = value as LifeDomain;
+    return `${domain.name || "Unnamed"} • ${domain.states.length} state${domain.states.length === 1 ? "" : "s"}`;
+  }
+  return value === undefined ? "Not set" : JSON.stringify(value);
+}
+
+function mergeSettings(
+  base: LifeDomainSettings,
+  local: LifeDomainSettings,
+  remote: LifeDomainSettings
+): { settings: LifeDomainSettings; conflicts: SettingsConflict[] } {
+  const settings: LifeDomainSettings = clone(local);
+  const conflicts: SettingsConflict[] = [];
+  const target = settings as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)] as (keyof LifeDomainSettings)[]);
+  for (const key of keys) {
+    if (key === "domains" || DEVICE_SETTINGS.includes(key)) continue;
+    const side = pickSide(base[key], local[key], remote[key]);
+    if (side === "remote") target[key] = clone(remote[key]);
+    if (side === "conflict") conflicts.push({ key, label: `Setting "${key}"`, local: local[key], remote: remote[key] });
+  }
+
+  const baseDomains = new Map(base.domains.map((d) => [d.id, d] as const));
+  const localDomains = new Map(local.domains.map((d) => [d.id, d] as const));
+  for (const remoteDomain of remote.domains) {
+    if (!localDomains.has(remoteDomain.id) && !baseDomains.has(remoteDomain.id)) {
+      settings.domains.push(clone(remoteDomain));
+    }
+  }
+  const remoteDomains = new Map(remote.domains.map((d) => [d.id, d] as const));
+  for (const [id, localDomain] of localDomains) {
+    const remoteDomain = remoteDomains.get(id);
+    const side = pickSide(baseDomains.get(id), localDomain, remoteDomain);
+    if (side === "conflict") {
+      const name = localDomain.name || remoteDomain?.name || "Unnamed";
+      conflicts.push({ key: `domain:${id}`, label: `Domain "${name}"`, local: localDomain, remote: remoteDomain });
+    } else if (side === "remote") {
+      applyRemoteSide(settings, { key: `domain:${id}`, label: "", local: localDomain, remote: remoteDomain });
+    }
+  }
+  // Deleted here and edited there: the edit is a conflict rather than silently bringing the domain back.
+  for (const [id, remoteDomain] of remoteDomains) {
+    const baseDomain = baseDomains.get(id);
+    if (localDomains.has(id) || !baseDomain || same(baseDomain, remoteDomain)) continue;
+    conflicts.push({
+      key: `domain:${id}`,
+      label: `Domain "${remoteDomain.name || "Unnamed"}"`,
+      local: undefined,
+      remote: remoteDomain
+    });
+  }
+  return { settings, conflicts };
+}
+
+/** Which side of a three-way merge wins for one value. */
+function pickSide(base: unknown, local: unknown, remote: unknown): "local" | "remote" | "conflict" {
+  if (same(local, remote) || same(remote, base)) return "local";
+  if (same(local, base)) return "remote";
+  return "conflict";
+}
+
+function mergeById<T>(
+  base: Map<string, T>,
+  local: Map<string, T>,
+  remote: Map<string, T>
+): { items: Map<string, T>; added: number; removed: number; updated: number } {
+  const items = new Map(local);
+  let added = 0;
+  let removed = 0;
+  let updated = 0;
+  for (const [key, remoteItem] of remote) {
+    const localItem = local.get(key);
+    const baseItem = base.get(key);
+    if (localItem === undefined) {
+      // Missing here: new on the other device, or deleted on this one.
+      if (baseItem === undefined) {
+        items.set(key, remoteItem);
+        added++;
+      }
+      continue;
+    }
+    if (baseItem !== undefined && pickSide(baseItem, localItem, remoteItem) === "remote") {
+      items.set(key, remoteItem);
+      updated++;
+    }
+  }
+  for (const [key, localItem] of local) {
+    const baseItem = base.get(key);
+    if (remote.has(key) || baseItem === undefined || !same(baseItem, localItem)) continue;
+    items.delete(key);
+    removed++;
+  }
+  return { items, added, removed, updated };
+}
+
+function indexLogs(logs: LifeDomainDataStore["logs"]): Map<string, FiledEntry> {
+  const index = new Map<string, FiledEntry>();
+  for (const [dateKey, domains] of Object.entries(logs)) {
+    for (const [domainId, entries] of Object.entries(domains)) {
+      for (const entry of entries) {
+        // Entries always have ids since schema 2; the fallback only guards hand-edited data.
+        index.set(entry.id || `${domainId}|${entry.stateId}|${entry.ts}`, { dateKey, domainId, entry });
+      }
+    }
+  }
+  return index;
+}
+
+function indexSessions(sessions: RunningSession[] | undefined): Map<string, RunningSession> {
+  return new Map((sessions ?? []).map((s) => [s.id, s] as const));
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,59 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { SCHEMA_VERSION, migrateStorage } from "../migrations";
+import schema0 from "./fixtures/schema-0.json";
+import schema0Expected from "./fixtures/schema-0.expected.json";
+import schema1 from "./fixtures/schema-1.json";
+import schema1Expected from "./fixtures/schema-1.expected.json";
+import schema2 from "./fixtures/schema-2.json";
+import schema2Expected from "./fixtures/schema-2.expected.json";
+
+// One fixture per stored shape: flat settings (0), split without versions or ids (1), and the current one (2).
+const FIXTURES = [
+  { version: 0, raw: schema0, expected: schema0Expected },
+  { version: 1, raw: schema1, expected: schema1Expected },
+  { version: 2, raw: schema2, expected: schema2Expected }
+];
+
+/** Replaces ids the migration generates with the fixtures' `<generated>` marker, after checking they are set. */
+function markGenerated(actual: unknown, expected: unknown): unknown {
+  if (expected === "<generated>") {
+    assert.ok(typeof actual === "string" && actual.length > 0, "expected a generated id");
+    return expected;
+  }
+  if (Array.isArray(actual) && Array.isArray(expected)) {
+    return actual.map((item, i) => markGenerated(item, expected[i]));
+  }
+  if (actual && expected && typeof actual === "object" && typeof expected === "object") {
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(actual)) {
+      result[key] = markGenerated(value, (expected as Record<string, unknown>)[key]);
+    }
+    return result;
+  }
+  return actual;
+}
+
+for (const { version, raw, expected } of FIXTURES) {
+  test(`migrates schema ${version} to schema ${SCHEMA_VERSION}`, () => {
+    const before = JSON.stringify(raw);
+    const { storage, fromVersion } = migrateStorage(raw);
+    assert.equal(fromVersion, version);
+    assert.deepEqual(markGenerated(storage, expected), expected);
+    assert.equal(JSON.stringify(raw), before, "the input must not be modified");
+  });
+}
+
+test("generated ids are unique", () => {
+  const { storage } = migrateStorage(schema1);
+  const ids: string[] = [];
+  for (const domain of storage.settings.domains) ids.push(domain.id, ...domain.states.map((s) => s.id));
+  assert.equal(new Set(ids).size, ids.length);
+});
+
+test("refuses data from a newer schema", () => {
+  const raw = { ...schema2, schemaVersion: SCHEMA_VERSION + 1 };
+  const before = JSON.stringify(raw);
+  assert.throws(() => migrateStorage(raw), /newer version of the plugin/);
+  assert.equal(JSON.stringify(raw), before);
+});
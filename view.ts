@@ -1,25 +1,183 @@
 import { ItemView, Notice, WorkspaceLeaf } from "obsidian";
 import { Chart } from "chart.js/auto";
-import LifeDomainTrackerPlugin, { getDateKeyFromTs, getTodayKey } from "./main";
+import LifeDomainTrackerPlugin, {
+  AggregationType,
+  DayBoundarySettings,
+  DomainLogEntry,
+  LifeDomain,
+  LifeDomainScale,
+  LifeDomainState,
+  LOGS_CHANGED_EVENT,
+  classifyScore,
+  dateFromKey,
+  describeStateScore,
+  formatDuration,
+  formatMeasurement,
+  getActiveDomains,
+  getActiveStates,
+  getCurrentDateKey,
+  getDateKeyFromTs,
+  getScoreScale,
+  getWallClock,
+  isDurationState,
+  isMeasuredState
+} from "./main";
+import { describeGoal, renderGoalStatus } from "./goals";
+import { MAX_CORRELATION_LAG, renderCorrelation } from "./correlation";
+import { computeCompositeScores } from "./composite";
+import { ValuePromptModal } from "./modals";
+import {
+  collectTags,
+  getDomainColor,
+  getStateColor,
+  hasTag,
+  renderItemLabel,
+  renderTagBadges
+} from "./appearance";
 
 export const VIEW_TYPE_DOMAIN_PERFORMANCE = "life-domain-performance";
 export const VIEW_TYPE_LOG_TIMELINE = "life-domain-log-timeline";
 
-type RangeKey = "7d" | "30d" | "90d" | "365d" | "all";
-type ViewKey = "domain" | "states" | "all-domains" | "calendar-heatmap" | "state-heatmap";
-type AggregationKey = "default" | "sum" | "average" | "worst";
+const HOUR_MS = 60 * 60 * 1000;
+
+export type RangeKey =
+  | "7d"
+  | "30d"
+  | "90d"
+  | "365d"
+  | "all"
+  | "this-week"
+  | "last-week"
+  | "this-month"
+  | "last-month"
+  | "this-quarter"
+  | "last-quarter"
+  | "ytd"
+  | "year"
+  | "custom";
+export type ViewKey =
+  | "domain"
+  | "states"
+  | "all-domains"
+  | "composite"
+  | "calendar-heatmap"
+  | "composite-heatmap"
+  | "state-heatmap"
+  | "correlation";
+export type AggregationKey = "default" | AggregationType;
+export type StateMetricKey = "count" | "score" | "value" | "duration";
+export type ResolutionKey = "auto" | "day" | "week" | "month" | "quarter";
+export type BucketMetricKey = "sum" | "average" | "min" | "max";
+
+export const RANGE_KEYS: RangeKey[] = [
+  "7d",
+  "30d",
+  "90d",
+  "365d",
+  "all",
+  "this-week",
+  "last-week",
+  "this-month",
+  "last-month",
+  "this-quarter",
+  "last-quarter",
+  "ytd",
+  "year",
+  "custom"
+];
+export const VIEW_KEYS: ViewKey[] = [
+  "domain",
+  "states",
+  "all-domains",
+  "composite",
+  "calendar-heatmap",
+  "composite-heatmap",
+  "state-heatmap",
+  "correlation"
+];
+export const AGGREGATION_TYPE_LABELS: Record<AggregationType, string> = {
+  sum: "Sum",
+  average: "Average",
+  worst: "Worst Case",
+  best: "Best Case",
+  median: "Median",
+  last: "Last of day",
+  count: "Entry count",
+  net: "Net good minus bad",
+  weighted: "Time-weighted"
+};
+export const AGGREGATION_KEYS: AggregationKey[] = [
+  "default",
+  ...(Object.keys(AGGREGATION_TYPE_LABELS) as AggregationType[])
+];
+export const STATE_METRIC_KEYS: StateMetricKey[] = ["count", "score", "value", "duration"];
+export const RESOLUTION_KEYS: ResolutionKey[] = ["auto", "day", "week", "month", "quarter"];
+export const BUCKET_METRIC_KEYS: BucketMetricKey[] = ["sum", "average", "min", "max"];
+
+// Views rendered as HTML instead of a line chart.
+export const CUSTOM_VIEW_KEYS: ViewKey[] = ["calendar-heatmap", "composite-heatmap", "state-heatmap", "correlation"];
+
+/** A range key plus the extra inputs the "year" and "custom" ranges need. */
+export interface RangeSelection {
+  rangeKey: RangeKey;
+  rangeYear?: number;
+  rangeFrom?: string;
+  rangeTo?: string;
+}
+
+/** Everything needed to render one chart or heatmap, independent of the view that hosts it. */
+export interface ChartOptions extends RangeSelection {
+  viewKey: ViewKey;
+  domainId: string;
+  aggregationOverride: AggregationKey;
+  stateMetric: StateMetricKey;
+  smoothingEnabled: boolean;
+  stateIds: string[];
+  resolution: ResolutionKey;
+  /** How state metrics are combined inside a week/month/quarter bucket. */
+  bucketMetric: BucketMetricKey;
+  /** Days between the two series in the correlation view. */
+  lag: number;
+  /** Limits the states and all-domains views to states or domains with this tag. */
+  tag?: string;
+}
+
+type ChartDataset = {
+  label: string;
+  data: number[];
+  borderColor: string;
+  backgroundColor: string;
+  spanGaps: boolean;
+  borderDash?: number[];
+  pointRadius?: number;
+};
+type ChartData = { labels: string[]; datasets: ChartDataset[] };
 
 export class DomainPerformanceView extends ItemView {
   plugin: LifeDomainTrackerPlugin;
   chart: Chart | null = null;
   domainId: string | null = null;
   rangeKey: RangeKey = "30d";
+  rangeYear: number = new Date().getFullYear();
+  rangeFrom = "";
+  rangeTo = "";
   viewKey: ViewKey = "domain";
   smoothingEnabled = false;
   aggregationOverride: AggregationKey = "default";
-  stateMetric: "count" | "score" = "count";
+  stateMetric: StateMetricKey = "count";
+  resolution: ResolutionKey = "auto";
+  bucketMetric: BucketMetricKey = "sum";
+  lag = 0;
+  tag = "";
+  /** States unchecked in the state picker; kept when the picker is rebuilt, so new states start checked. */
+  hiddenStateIds = new Set<string>();
   domainSelectEl: HTMLSelectElement | null = null;
   rangeSelectEl: HTMLSelectElement | null = null;
+  rangeYearEl: HTMLInputElement | null = null;
+  rangeFromEl: HTMLInputElement | null = null;
+  rangeToEl: HTMLInputElement | null = null;
+  lagEl: HTMLInputElement | null = null;
+  tagSelectEl: HTMLSelectElement | null = null;
   viewSelectEl: HTMLSelectElement | null = null;
   statePickerEl: HTMLElement | null = null;
   canvasEl: HTMLCanvasElement | null = null;
@@ -27,6 +185,8 @@ export class DomainPerformanceView extends ItemView {
   smoothingToggleEl: HTMLInputElement | null = null;
   aggregationSelectEl: HTMLSelectElement | null = null;
   stateMetricSelectEl: HTMLSelectElement | null = null;
+  resolutionSelectEl: HTMLSelectElement | null = null;
+  bucketMetricSelectEl: HTMLSelectElement | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: LifeDomainTrackerPlugin) {
     super(leaf);
@@ -41,8 +201,16 @@ export class DomainPerformanceView extends ItemView {
     return "Life Domain Performance";
   }
 
+  onload() {
+    // Logs and settings can change while the view is open, e.g. when sync brings in another device's data.
+    this.registerEvent(this.plugin.events.on(LOGS_CHANGED_EVENT, () => this.refresh()));
+  }
+
   async onOpen() {
     const { contentEl } = this;
+    // Also called again by `refresh`, which replaces the canvas the chart was drawn on.
+    this.chart?.destroy();
+    this.chart = null;
     contentEl.empty();
     contentEl.addClass("life-domain-modal");
     contentEl.createEl("h3", { text: "Life Domain Performance" });
@@ -57,62 +225,115 @@ export class DomainPerformanceView extends ItemView {
     this.viewSelectEl = controls.createEl("select");
     this.domainSelectEl = controls.createEl("select");
     this.rangeSelectEl = controls.createEl("select");
+    this.rangeYearEl = controls.createEl("input", { cls: "life-domain-range-year" });
+    this.rangeYearEl.type = "number";
+    this.rangeYearEl.value = String(this.rangeYear);
+    this.rangeFromEl = controls.createEl("input");
+    this.rangeFromEl.type = "date";
+    this.rangeFromEl.value = this.rangeFrom;
+    this.rangeFromEl.setAttr("aria-label", "From");
+    this.rangeToEl = controls.createEl("input");
+    this.rangeToEl.type = "date";
+    this.rangeToEl.value = this.rangeTo;
+    this.rangeToEl.setAttr("aria-label", "To");
     this.aggregationSelectEl = controls.createEl("select");
     this.stateMetricSelectEl = controls.createEl("select");
+    this.resolutionSelectEl = controls.createEl("select");
+    this.bucketMetricSelectEl = controls.createEl("select");
+    this.lagEl = controls.createEl("input", { cls: "life-domain-range-year" });
+    this.lagEl.type = "number";
+    this.lagEl.min = "0";
+    this.lagEl.max = String(MAX_CORRELATION_LAG);
+    this.lagEl.value = String(this.lag);
+    this.lagEl.setAttr("aria-label", "Lag in days");
+    this.tagSelectEl = controls.createEl("select");
     const smoothingWrap = controls.createEl("label", { cls: "life-domain-smoothing" });
     this.smoothingToggleEl = smoothingWrap.createEl("input");
     this.smoothingToggleEl.type = "checkbox";
+    this.smoothingToggleEl.checked = this.smoothingEnabled;
     smoothingWrap.createEl("span", { text: "Smoothing" });
 
     const views: { key: ViewKey; label: string }[] = [
       { key: "domain", label: "Domain score" },
       { key: "states", label: "State activity" },
       { key: "all-domains", label: "All domains" },
+      { key: "composite", label: "Life score" },
       { key: "calendar-heatmap", label: "Calendar heatmap" },
-      { key: "state-heatmap", label: "State heatmap" }
+      { key: "composite-heatmap", label: "Life score heatmap" },
+      { key: "state-heatmap", label: "State heatmap" },
+      { key: "correlation", label: "Correlation" }
     ];
     for (const view of views) {
       this.viewSelectEl.createEl("option", { text: view.label, value: view.key });
     }
-
-    for (const domain of domains) {
-      this.domainSelectEl.createEl("option", { text: domain.name, value: domain.id });
-    }
+    this.viewSelectEl.value = this.viewKey;
 
     const ranges: { key: RangeKey; label: string }[] = [
       { key: "7d", label: "Last 7 days" },
       { key: "30d", label: "Last 30 days" },
       { key: "90d", label: "Last 90 days" },
       { key: "365d", label: "Last 365 days" },
-      { key: "all", label: "All time" }
+      { key: "all", label: "All time" },
+      { key: "this-week", label: "This week" },
+      { key: "last-week", label: "Last week" },
+      { key: "this-month", label: "This month" },
+      { key: "last-month", label: "Last month" },
+      { key: "this-quarter", label: "This quarter" },
+      { key: "last-quarter", label: "Last quarter" },
+      { key: "ytd", label: "Year to date" },
+      { key: "year", label: "Specific year" },
+      { key: "custom", label: "Custom range" }
     ];
     for (const range of ranges) {
       this.rangeSelectEl.createEl("option", { text: range.label, value: range.key });
     }
     this.rangeSelectEl.value = this.rangeKey;
 
-    const aggs: { key: AggregationKey; label: string }[] = [
-      { key: "default", label: "Use domain default" },
-      { key: "sum", label: "Sum" },
-      { key: "average", label: "Average" },
-      { key: "worst", label: "Worst Case" }
-    ];
-    for (const agg of aggs) {
-      this.aggregationSelectEl.createEl("option", { text: agg.label, value: agg.key });
+    this.aggregationSelectEl.createEl("option", { text: "Use domain default", value: "default" });
+    for (const [key, label] of Object.entries(AGGREGATION_TYPE_LABELS)) {
+      this.aggregationSelectEl.createEl("option", { text: label, value: key });
     }
+    this.aggregationSelectEl.value = this.aggregationOverride;
 
-    const metrics: { key: "count" | "score"; label: string }[] = [
+    const metrics: { key: StateMetricKey; label: string }[] = [
       { key: "count", label: "State count" },
-      { key: "score", label: "State score" }
+      { key: "score", label: "State score" },
+      { key: "value", label: "Measured value" },
+      { key: "duration", label: "Duration (minutes)" }
     ];
     for (const metric of metrics) {
       this.stateMetricSelectEl.createEl("option", { text: metric.label, value: metric.key });
     }
+    this.stateMetricSelectEl.value = this.stateMetric;
+
+    const resolutions: { key: ResolutionKey; label: string }[] = [
+      { key: "auto", label: "Auto resolution" },
+      { key: "day", label: "Daily" },
+      { key: "week", label: "Weekly" },
+      { key: "month", label: "Monthly" },
+      { key: "quarter", label: "Quarterly" }
+    ];
+    for (const resolution of resolutions) {
+      this.resolutionSelectEl.createEl("option", { text: resolution.label, value: resolution.key });
+    }
+    this.resolutionSelectEl.value = this.resolution;
+
+    const bucketMetrics: { key: BucketMetricKey; label: string }[] = [
+      { key: "sum", label: "Bucket total" },
+      { key: "average", label: "Bucket average" },
+      { key: "min", label: "Bucket minimum" },
+      { key: "max", label: "Bucket maximum" }
+    ];
+    for (const metric of bucketMetrics) {
+      this.bucketMetricSelectEl.createEl("option", { text: metric.label, value: metric.key });
+    }
+    this.bucketMetricSelectEl.value = this.bucketMetric;
 
     this.statePickerEl = contentEl.createDiv({ cls: "life-domain-state-picker" });
     this.customEl = contentEl.createDiv({ cls: "life-domain-custom-view" });
     this.canvasEl = contentEl.createEl("canvas");
-    this.domainId = domains[0].id;
+    this.renderDomainOptions();
+    this.renderTagOptions();
 
     this.viewSelectEl.addEventListener("change", () => {
       this.viewKey = (this.viewSelectEl?.value as ViewKey) ?? "domain";
@@ -126,6 +347,21 @@ export class DomainPerformanceView extends ItemView {
     });
     this.rangeSelectEl.addEventListener("change", () => {
       this.rangeKey = (this.rangeSelectEl?.value as RangeKey) ?? "30d";
+      this.updateRangeInputs();
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.rangeYearEl.addEventListener("change", () => {
+      const year = parseInt(this.rangeYearEl?.value ?? "", 10);
+      if (!Number.isFinite(year)) return;
+      this.rangeYear = year;
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.rangeFromEl.addEventListener("change", () => {
+      this.rangeFrom = this.rangeFromEl?.value ?? "";
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.rangeToEl.addEventListener("change", () => {
+      this.rangeTo = this.rangeToEl?.value ?? "";
       if (this.canvasEl) this.renderChart(this.canvasEl);
     });
     this.aggregationSelectEl.addEventListener("change", () => {
@@ -133,7 +369,26 @@ export class DomainPerformanceView extends ItemView {
       if (this.canvasEl) this.renderChart(this.canvasEl);
     });
     this.stateMetricSelectEl.addEventListener("change", () => {
-      this.stateMetric = (this.stateMetricSelectEl?.value as "count" | "score") ?? "count";
+      this.stateMetric = (this.stateMetricSelectEl?.value as StateMetricKey) ?? "count";
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.resolutionSelectEl.addEventListener("change", () => {
+      this.resolution = (this.resolutionSelectEl?.value as ResolutionKey) ?? "auto";
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.bucketMetricSelectEl.addEventListener("change", () => {
+      this.bucketMetric = (this.bucketMetricSelectEl?.value as BucketMetricKey) ?? "sum";
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.tagSelectEl.addEventListener("change", () => {
+      this.tag = this.tagSelectEl?.value ?? "";
+      this.renderStatePicker();
+      if (this.canvasEl) this.renderChart(this.canvasEl);
+    });
+    this.lagEl.addEventListener("change", () => {
+      const lag = parseInt(this.lagEl?.value ?? "", 10);
+      if (!Number.isFinite(lag)) return;
+      this.lag = Math.max(0, Math.min(MAX_CORRELATION_LAG, lag));
       if (this.canvasEl) this.renderChart(this.canvasEl);
     });
     this.smoothingToggleEl.addEventListener("change", () => {
@@ -141,10 +396,51 @@ export class DomainPerformanceView extends ItemView {
       if (this.canvasEl) this.renderChart(this.canvasEl);
     });
 
+    this.updateRangeInputs();
     this.renderStatePicker();
     if (this.canvasEl) this.renderChart(this.canvasEl);
   }
 
+  /** Redraws after logs or settings changed elsewhere, keeping the current selections and without notices. */
+  private refresh() {
+    const hasDomains = this.plugin.settings.domains.length > 0;
+    if (!this.domainSelectEl || !hasDomains) {
+      // Domains appeared or all went away: the controls have to be built or removed.
+      if (this.domainSelectEl || hasDomains) void this.onOpen();
+      if (!hasDomains) this.domainSelectEl = null;
+      return;
+    }
+    this.renderDomainOptions();
+    this.renderTagOptions();
+    this.renderStatePicker();
+    if (this.canvasEl) this.renderChart(this.canvasEl, true);
+  }
+
+  /** Rebuilds the domain select, falling back to the first domain when the selected one is gone. */
+  private renderDomainOptions() {
+    if (!this.domainSelectEl) return;
+    const domains = this.plugin.settings.domains;
+    this.domainSelectEl.empty();
+    for (const domain of domains) {
+      const label = domain.archived ? `${domain.name} (archived)` : domain.name;
+      this.domainSelectEl.createEl("option", { text: label, value: domain.id });
+    }
+    if (!domains.some((d) => d.id === this.domainId)) this.domainId = domains[0]?.id ?? null;
+    this.domainSelectEl.value = this.domainId ?? "";
+  }
+
+  private renderTagOptions() {
+    if (!this.tagSelectEl) return;
+    const tags = collectTags(this.plugin.settings.domains);
+    this.tagSelectEl.empty();
+    this.tagSelectEl.createEl("option", { text: "All tags", value: "" });
+    for (const tag of tags) {
+      this.tagSelectEl.createEl("option", { text: `#${tag}`, value: tag });
+    }
+    if (this.tag && !tags.includes(this.tag)) this.tag = "";
+    this.tagSelectEl.value = this.tag;
+  }
+
   async onClose(): Promise<void> {
     if (this.chart) {
       this.chart.destroy();
@@ -152,21 +448,44 @@ export class DomainPerformanceView extends ItemView {
     }
   }
 
+  private updateRangeInputs() {
+    this.rangeYearEl?.toggle(this.rangeKey === "year");
+    this.rangeFromEl?.toggle(this.rangeKey === "custom");
+    this.rangeToEl?.toggle(this.rangeKey === "custom");
+  }
+
   private renderStatePicker() {
     if (!this.statePickerEl) return;
     this.statePickerEl.empty();
 
     if (this.domainSelectEl) {
-      this.domainSelectEl.disabled = this.viewKey === "all-domains";
+      this.domainSelectEl.disabled = ["all-domains", "composite", "composite-heatmap"].includes(this.viewKey);
     }
     if (this.aggregationSelectEl) {
-      this.aggregationSelectEl.disabled = this.viewKey === "states";
+      this.aggregationSelectEl.disabled = ["states", "composite", "composite-heatmap"].includes(this.viewKey);
     }
     if (this.stateMetricSelectEl) {
       this.stateMetricSelectEl.disabled = this.viewKey !== "states";
     }
+    if (this.bucketMetricSelectEl) {
+      this.bucketMetricSelectEl.disabled = this.viewKey !== "states";
+    }
+    if (this.resolutionSelectEl) {
+      this.resolutionSelectEl.disabled = !["domain", "states", "all-domains", "composite"].includes(this.viewKey);
+    }
+    this.lagEl?.toggle(this.viewKey === "correlation");
+    if (this.tagSelectEl) {
+      this.tagSelectEl.disabled = this.viewKey !== "states" && this.viewKey !== "all-domains";
+    }
 
     if (this.viewKey !== "states") return;
+    if (this.tag) {
+      this.statePickerEl.createEl("div", {
+        text: `Showing states tagged #${this.tag} across all domains.`,
+        cls: "life-domain-state-picker-title"
+      });
+      return;
+    }
 
     const domain = this.plugin.settings.domains.find((d) => d.id === this.domainId);
     if (!domain) return;
@@ -178,202 +497,87 @@ export class DomainPerformanceView extends ItemView {
       const label = list.createEl("label", { cls: "life-domain-state-picker-item" });
       const checkbox = label.createEl("input");
       checkbox.type = "checkbox";
-      checkbox.checked = true;
+      checkbox.checked = !this.hiddenStateIds.has(state.id);
       checkbox.dataset.stateId = state.id;
-      label.createEl("span", { text: state.name || "Unnamed" });
+      renderItemLabel(label, state, getStateColor(state), "Unnamed");
       checkbox.addEventListener("change", () => {
+        if (checkbox.checked) this.hiddenStateIds.delete(state.id);
+        else this.hiddenStateIds.add(state.id);
         if (this.canvasEl) this.renderChart(this.canvasEl);
       });
     }
   }
 
-  private renderChart(canvas: HTMLCanvasElement) {
+  /** `quiet` renders skip notices, for redraws the user did not ask for. */
+  private renderChart(canvas: HTMLCanvasElement, quiet = false) {
     if (this.customEl) this.customEl.empty();
     if (this.customEl) this.customEl.hide();
     canvas.style.display = "";
 
     if (!this.domainId) {
-      new Notice("No domains configured.");
+      if (!quiet) new Notice("No domains configured.");
       return;
     }
 
     const domain = this.plugin.settings.domains.find((d) => d.id === this.domainId);
     if (!domain) {
-      new Notice("Domain not found.");
+      if (!quiet) new Notice("Domain not found.");
       return;
     }
 
-    let chartData: {
-      labels: string[];
-      datasets: { label: string; data: number[]; borderColor: string; backgroundColor: string; spanGaps: boolean }[];
+    const options: ChartOptions = {
+      viewKey: this.viewKey,
+      domainId: domain.id,
+      rangeKey: this.rangeKey,
+      rangeYear: this.rangeYear,
+      rangeFrom: this.rangeFrom || undefined,
+      rangeTo: this.rangeTo || undefined,
+      aggregationOverride: this.aggregationOverride,
+      stateMetric: this.stateMetric,
+      smoothingEnabled: this.smoothingEnabled,
+      stateIds: getSelectedStateIds(this.statePickerEl),
+      resolution: this.resolution,
+      bucketMetric: this.bucketMetric,
+      lag: this.lag,
+      tag: ["states", "all-domains"].includes(this.viewKey) ? this.tag || undefined : undefined
     };
 
-    const aggregateIndex = buildDomainAggregateIndex(this.plugin);
-
-    if (this.viewKey === "calendar-heatmap") {
-      this.renderCalendarHeatmap(domain.id);
-      return;
-    }
-    if (this.viewKey === "state-heatmap") {
-      this.renderStateHeatmap(domain.id);
+    if (CUSTOM_VIEW_KEYS.includes(this.viewKey)) {
+      if (!this.customEl) return;
+      this.customEl.style.display = "";
+      if (this.chart) {
+        this.chart.destroy();
+        this.chart = null;
+      }
+      canvas.style.display = "none";
+      if (this.viewKey === "calendar-heatmap" || this.viewKey === "composite-heatmap") {
+        renderCalendarHeatmap(this.plugin, this.customEl, options);
+      } else if (this.viewKey === "correlation") {
+        renderCorrelation(this.plugin, this.customEl, options);
+      } else {
+        renderStateHeatmap(this.plugin, this.customEl, options);
+      }
       return;
     }
 
-    if (this.viewKey === "domain") {
-      const series = buildDomainSeries(
-        this.plugin,
-        this.domainId,
-        this.rangeKey,
-        this.aggregationOverride,
-        aggregateIndex
-      );
-      chartData = {
-        labels: series.labels,
-        datasets: [
-          {
-            label: domain.name,
-            data: series.values,
-            borderColor: "#2a9d8f",
-            backgroundColor: "#2a9d8f",
-            spanGaps: true
-          }
-        ]
-      };
-    } else if (this.viewKey === "states") {
-      const selectedStateIds = getSelectedStateIds(this.statePickerEl);
-      const series = buildStateSeries(
-        this.plugin,
-        this.domainId,
-        selectedStateIds,
-        this.rangeKey,
-        this.stateMetric
-      );
-      chartData = {
-        labels: series.labels,
-        datasets: series.datasets
-      };
-    } else {
-      const series = buildAllDomainsSeries(
-        this.plugin,
-        this.rangeKey,
-        this.aggregationOverride,
-        aggregateIndex
-      );
-      chartData = {
-        labels: series.labels,
-        datasets: series.datasets
-      };
-    }
-
+    const chartData = buildChartData(this.plugin, options);
     if (!chartData.labels.length) {
-      new Notice("No data available for the selected view.");
+      if (quiet) {
+        // The data behind the current chart is gone, so it should not stay on screen.
+        this.chart?.destroy();
+        this.chart = null;
+      } else {
+        new Notice("No data available for the selected view.");
+      }
       return;
     }
 
-    const smoothingWindow = getSmoothingWindow(this.rangeKey);
-    if (this.smoothingEnabled) {
-      chartData = {
-        labels: chartData.labels,
-        datasets: chartData.datasets.map((ds) => ({
-          ...ds,
-          data: applyMovingAverage(ds.data, smoothingWindow)
-        }))
-      };
-    }
-
-    if (this.chart) {
-      this.chart.destroy();
-      this.chart = null;
-    }
-
-    this.chart = new Chart(canvas, {
-      type: "line",
-      data: chartData,
-      options: {
-        responsive: true,
-        interaction: { mode: "index", intersect: false },
-        plugins: {
-          legend: { display: true }
-        },
-        scales: {
-          x: { grid: { display: false }, border: { display: false } },
-          y: { beginAtZero: true, grid: { display: false }, border: { display: false } }
-        }
-      }
-    });
-  }
-
-  private renderCalendarHeatmap(domainId: string) {
-    if (!this.customEl) return;
-    this.customEl.style.display = "";
     if (this.chart) {
       this.chart.destroy();
       this.chart = null;
     }
-    if (this.canvasEl) this.canvasEl.style.display = "none";
-
-    const domain = this.plugin.settings.domains.find((d) => d.id === domainId);
-    if (!domain) return;
-
-    const aggregateIndex = buildDomainAggregateIndex(this.plugin);
-    const dates = buildDateRange(this.rangeKey, Object.keys(this.plugin.dataStore.logs));
-    const values = dates.map((dateKey) => {
-      const agg = this.aggregationOverride === "default" ? domain.aggregationType : this.aggregationOverride;
-      return aggregateFromIndex(aggregateIndex, dateKey, domain.id, agg);
-    });
-    const min = Math.min(...values, 0);
-    const max = Math.max(...values, 0);
 
-    const grid = this.customEl.createDiv({ cls: "life-domain-heatmap-grid" });
-    for (let i = 0; i < dates.length; i++) {
-      const cell = grid.createDiv({ cls: "life-domain-heatmap-cell" });
-      const value = values[i];
-      const intensity = normalizeValue(value, min, max);
-      cell.style.backgroundColor = heatColor(value, intensity);
-      cell.setAttr("title", `${dates[i]} • ${value.toFixed(2)}`);
-      cell.setText(dates[i].slice(8));
-    }
-  }
-
-  private renderStateHeatmap(domainId: string) {
-    if (!this.customEl) return;
-    this.customEl.style.display = "";
-    if (this.chart) {
-      this.chart.destroy();
-      this.chart = null;
-    }
-    if (this.canvasEl) this.canvasEl.style.display = "none";
-
-    const domain = this.plugin.settings.domains.find((d) => d.id === domainId);
-    if (!domain) return;
-
-    const dates = buildDateRange(this.rangeKey, Object.keys(this.plugin.dataStore.logs));
-    const stateIndex = buildStateMetricIndex(this.plugin, domain.id, this.stateMetric);
-
-    const wrapper = this.customEl.createDiv({ cls: "life-domain-state-heatmap" });
-    const header = wrapper.createDiv({ cls: "life-domain-state-heatmap-header" });
-    header.createDiv({ text: "State" });
-    const headerRow = header.createDiv({ cls: "life-domain-state-heatmap-row" });
-    for (const dateKey of dates) {
-      const cell = headerRow.createDiv({ cls: "life-domain-heatmap-cell header" });
-      cell.setText(dateKey.slice(8));
-    }
-
-    for (const state of domain.states) {
-      const row = wrapper.createDiv({ cls: "life-domain-state-heatmap-row" });
-      row.createDiv({ text: state.name || "Unnamed", cls: "life-domain-state-label" });
-      const values = dates.map((d) => stateIndex.get(d)?.get(state.id) ?? 0);
-      const min = Math.min(...values, 0);
-      const max = Math.max(...values, 0);
-      for (let i = 0; i < dates.length; i++) {
-        const cell = row.createDiv({ cls: "life-domain-heatmap-cell" });
-        const value = values[i];
-        const intensity = normalizeValue(value, min, max);
-        cell.style.backgroundColor = heatColor(value, intensity);
-        cell.setAttr("title", `${dates[i]} • ${value.toFixed(2)}`);
-        cell.setText(value ? String(value) : "");
-      }
-    }
+    this.chart = createLineChart(canvas, chartData);
   }
 }
 
@@ -384,12 +588,18 @@ export class LogTimelineView extends ItemView {
   noteInputEl: HTMLTextAreaElement | null = null;
   timeDisplayEl: HTMLElement | null = null;
   selectedTimeTs: number | null = null;
-  selectedDateKey: string = getTodayKey();
+  selectedDateKey: string;
   dateInputEl: HTMLInputElement | null = null;
+  editEl: HTMLElement | null = null;
+  editingEntryId: string | null = null;
+  /** The edited entry as the panel last showed it, to tell whether an outside change touched it. */
+  editingSnapshot: string | null = null;
+  sessionsEl: HTMLElement | null = null;
 
   constructor(leaf: WorkspaceLeaf, plugin: LifeDomainTrackerPlugin) {
     super(leaf);
     this.plugin = plugin;
+    this.selectedDateKey = getCurrentDateKey(plugin.settings);
   }
 
   getViewType(): string {
@@ -417,11 +627,15 @@ export class LogTimelineView extends ItemView {
     this.dateInputEl.type = "date";
     this.dateInputEl.value = this.selectedDateKey;
     this.dateInputEl.addEventListener("change", () => {
-      this.selectedDateKey = this.dateInputEl?.value || getTodayKey();
+      this.selectedDateKey = this.dateInputEl?.value || getCurrentDateKey(this.plugin.settings);
       this.selectedTimeTs = null;
+      this.editingEntryId = null;
       this.updateTimeDisplay();
+      this.renderEditPanel();
       this.renderTimeline();
     });
+    this.sessionsEl = timelinePanel.createDiv({ cls: "life-domain-sessions" });
+    this.editEl = timelinePanel.createDiv({ cls: "life-domain-edit-panel" });
     this.timelineEl = timelinePanel.createDiv({ cls: "life-domain-timeline-list" });
 
     const noteWrap = statesPanel.createDiv({ cls: "life-domain-note" });
@@ -444,8 +658,23 @@ export class LogTimelineView extends ItemView {
     this.statesEl = statesPanel.createDiv({ cls: "life-domain-list" });
 
     this.renderStates();
+    this.renderEditPanel();
     this.renderTimeline();
+    this.renderSessions();
     this.updateTimeDisplay();
+
+    // Sessions can be started or stopped from commands while this view is open.
+    this.registerEvent(
+      this.plugin.events.on(LOGS_CHANGED_EVENT, () => {
+        this.renderStates();
+        this.renderTimeline();
+        this.renderSessions();
+        // Only when the edited entry changed or is gone, e.g. after an undo or sync, so unsaved input survives.
+        const found = this.editingEntryId ? this.plugin.findLog(this.editingEntryId) : null;
+        if (this.editingEntryId && JSON.stringify(found) !== this.editingSnapshot) this.renderEditPanel();
+      })
+    );
+    this.registerInterval(window.setInterval(() => this.renderSessions(), 60 * 1000));
   }
 
   async onClose(): Promise<void> {
@@ -455,41 +684,89 @@ export class LogTimelineView extends ItemView {
   private renderStates() {
     if (!this.statesEl) return;
     this.statesEl.empty();
-    const domains = this.plugin.settings.domains;
+    const domains = getActiveDomains(this.plugin.settings);
     if (!domains.length) {
       this.statesEl.createEl("p", { text: "No domains configured. Add domains in settings." });
       return;
     }
 
+    const aggregateIndex = domains.some((d) => d.goals?.length) ? buildDomainAggregateIndex(this.plugin) : null;
     for (const domain of domains) {
       const domainBlock = this.statesEl.createDiv({ cls: "life-domain-group" });
-      domainBlock.createEl("div", { text: domain.name || "Unnamed domain", cls: "life-domain-group-title" });
+      const groupTitle = domainBlock.createDiv({ cls: "life-domain-group-title" });
+      renderItemLabel(groupTitle, domain, getDomainColor(this.plugin.settings.domains, domain), "Unnamed domain");
+      if (aggregateIndex) renderGoalStatus(domainBlock, this.plugin, domain, aggregateIndex);
 
-      for (const state of domain.states) {
+      for (const state of getActiveStates(domain)) {
         const row = domainBlock.createDiv({ cls: "life-domain-state-row" });
         const meta = row.createDiv({ cls: "life-domain-state-meta" });
-        meta.createEl("div", { text: state.name || "Unnamed state" });
+        renderItemLabel(meta.createDiv(), state, getStateColor(state), "Unnamed state");
         const badges = meta.createDiv({ cls: "life-domain-badges" });
         const kindBadge = badges.createEl("span", { cls: "life-domain-badge" });
-        kindBadge.textContent = state.score > 0 ? "GOOD" : state.score < 0 ? "BAD" : "NEUTRAL";
-        badges.createEl("span", { text: `Score ${state.score}`, cls: "life-domain-badge" });
+        const kind = isMeasuredState(state) ? "neutral" : classifyScore(domain, state.score);
+        kindBadge.textContent = isMeasuredState(state) ? "MEASURED" : kind.toUpperCase();
+        badges.createEl("span", { text: describeStateScore(state), cls: "life-domain-badge" });
+        renderTagBadges(badges, state.tags);
 
         const actions = row.createDiv({ cls: "life-domain-state-actions" });
+        if (isDurationState(state)) {
+          const running = this.plugin.getRunningSession(domain.id, state.id);
+          const sessionBtn = actions.createEl("button", { text: running ? "Stop" : "Start" });
+          if (running) sessionBtn.addClass("mod-warning");
+          sessionBtn.addEventListener("click", () => {
+            if (running) {
+              this.plugin.stopSession(running.id);
+            } else {
+              // A time picked in the timeline back-dates the start; otherwise the session starts now.
+              const note = this.noteInputEl?.value ?? "";
+              if (!this.plugin.startSession(domain.id, state.id, note, this.selectedTimeTs ?? undefined)) return;
+              if (this.noteInputEl) this.noteInputEl.value = "";
+            }
+          });
+          continue;
+        }
         const btn = actions.createEl("button", { text: "Log" });
         btn.addEventListener("click", () => {
           const note = this.noteInputEl?.value ?? "";
           const logTs = this.getSelectedLogTs();
-          this.plugin.addLog(domain.id, state.id, note, logTs);
-          if (this.noteInputEl) this.noteInputEl.value = "";
-          this.renderTimeline();
+          const log = (value?: number) => {
+            if (!this.plugin.addLog(domain.id, state.id, note, logTs, value)) return;
+            if (this.noteInputEl) this.noteInputEl.value = "";
+            this.renderStates();
+            this.renderTimeline();
+          };
+          if (isMeasuredState(state)) {
+            new ValuePromptModal(this.app, `Log ${state.name || "Unnamed state"}`, state, false, log).open();
+          } else {
+            log();
+          }
         });
 
-        if (state.score > 0) row.classList.add("life-domain-good");
-        if (state.score < 0) row.classList.add("life-domain-bad");
+        if (kind === "good") row.classList.add("life-domain-good");
+        if (kind === "bad") row.classList.add("life-domain-bad");
       }
     }
   }
 
+  private renderSessions() {
+    if (!this.sessionsEl) return;
+    this.sessionsEl.empty();
+    const sessions = this.plugin.dataStore.runningSessions ?? [];
+    this.sessionsEl.toggle(sessions.length > 0);
+    for (const session of sessions) {
+      const domain = this.plugin.settings.domains.find((d) => d.id === session.domainId);
+      const state = domain?.states.find((s) => s.id === session.stateId);
+      const row = this.sessionsEl.createDiv({ cls: "life-domain-session-row" });
+      row.createDiv({
+        text:
+          `${domain?.name || "Unnamed domain"} • ${state?.name || "Unknown state"} since ` +
+          `${formatTimeLabel(new Date(session.startTs))} (${formatDuration(Date.now() - session.startTs)})`
+      });
+      const stopBtn = row.createEl("button", { text: "Stop", cls: "mod-warning" });
+      stopBtn.addEventListener("click", () => this.plugin.stopSession(session.id));
+    }
+  }
+
   private renderTimeline() {
     if (!this.timelineEl) return;
     this.timelineEl.empty();
@@ -499,44 +776,77 @@ export class LogTimelineView extends ItemView {
 
     const entries: {
       ts: number;
+      /** Start and end on the clock of the zone the entry is dated in, see `getWallClock`. */
+      start: number;
+      end: number;
+      domainId: string;
       domainName: string;
       stateName: string;
+      color: string;
+      icon?: string;
       score: number;
+      measurement?: string;
       note?: string;
+      entry: DomainLogEntry;
     }[] = [];
 
-    for (const domain of this.plugin.settings.domains) {
-      const logs = dayLogs[domain.id] ?? [];
+    // The day runs from the day start hour to the next one; hours are indexed from the day start.
+    const { settings } = this.plugin;
+    const [y, m, d] = dateKey.split("-").map((v) => Number(v));
+    const dayStart = Date.UTC(y, m - 1, d, settings.dayStartHour);
+    const dayEnd = dayStart + 24 * HOUR_MS;
+    const hourIndex = (wall: number) => Math.floor((wall - dayStart) / HOUR_MS);
+    const clampHour = (wall: number) => Math.min(23, Math.max(0, hourIndex(wall)));
+    const wallTime = (ts: number, entry: DomainLogEntry) => getWallClock(ts, settings, entry.tzOffset).getTime();
+
+    const previousLogs = this.plugin.dataStore.logs[toDateKey(addDays(dateFromKey(dateKey), -1))] ?? {};
+    for (const domain of settings.domains) {
+      // Sessions filed under the previous day can run past the day start into this one.
+      const carriedOver = (previousLogs[domain.id] ?? []).filter(
+        (e) => e.endTs !== undefined && wallTime(e.endTs, e) > dayStart
+      );
+      const logs = [...carriedOver, ...(dayLogs[domain.id] ?? [])];
       for (const entry of logs) {
         const state = domain.states.find((s) => s.id === entry.stateId);
         entries.push({
           ts: entry.ts,
+          start: wallTime(entry.ts, entry),
+          end: wallTime(entry.endTs ?? entry.ts, entry),
+          domainId: domain.id,
           domainName: domain.name || "Unnamed domain",
           stateName: state?.name || "Unknown state",
+          color: state ? getStateColor(state) : getDomainColor(settings.domains, domain),
+          icon: state?.icon ?? domain.icon,
           score: entry.score,
-          note: entry.note
+          measurement: state && entry.value !== undefined ? formatMeasurement(state, entry.value) : undefined,
+          note: entry.note,
+          entry
         });
       }
     }
 
     entries.sort((a, b) => a.ts - b.ts);
 
+    // Sessions are listed in every hour block they cover on this day.
     const byHour = new Map<number, typeof entries>();
     for (const entry of entries) {
-      const hour = new Date(entry.ts).getHours();
-      if (!byHour.has(hour)) byHour.set(hour, []);
-      byHour.get(hour)!.push(entry);
+      const last = clampHour(Math.min(entry.end, dayEnd - 1));
+      for (let index = clampHour(entry.start); index <= last; index++) {
+        if (!byHour.has(index)) byHour.set(index, []);
+        byHour.get(index)!.push(entry);
+      }
     }
 
-    for (let hour = 0; hour < 24; hour++) {
+    for (let index = 0; index < 24; index++) {
+      const hour = (settings.dayStartHour + index) % 24;
       const hourBlock = this.timelineEl.createDiv({ cls: "life-domain-timeline-hour-block" });
-      if (this.selectedTimeTs) {
-        const selHour = new Date(this.selectedTimeTs).getHours();
-        if (selHour === hour) hourBlock.addClass("is-selected");
+      if (this.selectedTimeTs && hourIndex(getWallClock(this.selectedTimeTs, settings).getTime()) === index) {
+        hourBlock.addClass("is-selected");
       }
       hourBlock.addEventListener("click", () => {
         const selected = dateFromKey(this.selectedDateKey);
-        selected.setHours(hour, 0, 0, 0);
+        // Past 23 this rolls over into the next calendar date.
+        selected.setHours(settings.dayStartHour + index, 0, 0, 0);
         this.selectedTimeTs = selected.getTime();
         this.updateTimeDisplay();
         this.renderTimeline();
@@ -546,15 +856,25 @@ export class LogTimelineView extends ItemView {
         hourLabel.setText(formatHourLabel(hour));
 
       const hourItems = hourBlock.createDiv({ cls: "life-domain-timeline-items" });
-      const hourEntries = byHour.get(hour) ?? [];
+      const hourEntries = byHour.get(index) ?? [];
       if (!hourEntries.length) {
         hourItems.createEl("div", { text: "—", cls: "life-domain-timeline-empty" });
         continue;
       }
 
       for (const entry of hourEntries) {
-        const time = new Date(entry.ts);
+        const continues = entry.start < dayStart || hourIndex(entry.start) !== index;
+        if (continues) {
+          const span = hourItems.createDiv({ cls: "life-domain-timeline-item is-span" });
+          span.setText(`↳ ${entry.domainName} • ${entry.stateName}`);
+          span.style.borderLeftColor = entry.color;
+          continue;
+        }
         const item = hourItems.createDiv({ cls: "life-domain-timeline-item" });
+        if (entry.entry.endTs !== undefined) {
+          item.addClass("is-session");
+          item.style.borderLeftColor = entry.color;
+        }
         item.addEventListener("click", (evt) => {
           evt.stopPropagation();
           this.selectedTimeTs = entry.ts;
@@ -562,27 +882,171 @@ export class LogTimelineView extends ItemView {
           this.renderTimeline();
         });
         const timeLabel = item.createDiv({ cls: "life-domain-timeline-time" });
-        timeLabel.setText(formatTimeLabel(time));
+        timeLabel.setText(
+          entry.entry.endTs !== undefined
+            ? `${formatWallClockLabel(entry.start)} – ${formatWallClockLabel(entry.end)}`
+            : formatWallClockLabel(entry.start)
+        );
 
         const body = item.createDiv({ cls: "life-domain-timeline-body" });
-        body.createEl("div", { text: `${entry.domainName} • ${entry.stateName}` });
-        body.createEl("div", { text: `Score ${entry.score}`, cls: "life-domain-timeline-score" });
+        renderItemLabel(
+          body.createDiv(),
+          { name: `${entry.domainName} • ${entry.stateName}`, icon: entry.icon },
+          entry.color,
+          entry.stateName
+        );
+        let scoreText = entry.measurement ? `${entry.measurement} • Score ${entry.score}` : `Score ${entry.score}`;
+        if (entry.entry.endTs !== undefined) {
+          scoreText = `${formatDuration(entry.entry.endTs - entry.ts)} • ${scoreText}`;
+        }
+        body.createEl("div", { text: scoreText, cls: "life-domain-timeline-score" });
         if (entry.note) {
           body.createEl("div", { text: entry.note, cls: "life-domain-timeline-note" });
         }
+
+        if (this.editingEntryId === entry.entry.id) item.addClass("is-editing");
+        const editBtn = item.createEl("button", { text: "Edit", cls: "life-domain-timeline-edit" });
+        editBtn.addEventListener("click", (evt) => {
+          evt.stopPropagation();
+          this.editingEntryId = entry.entry.id;
+          this.renderEditPanel();
+          this.renderTimeline();
+        });
       }
     }
   }
 
+  private renderEditPanel() {
+    if (!this.editEl) return;
+    this.editEl.empty();
+    const found = this.editingEntryId ? this.plugin.findLog(this.editingEntryId) : null;
+    const domain = found && this.plugin.settings.domains.find((d) => d.id === found.domainId);
+    if (!found || !domain) {
+      this.editingEntryId = null;
+      this.editingSnapshot = null;
+      this.editEl.hide();
+      return;
+    }
+    this.editingSnapshot = JSON.stringify(found);
+    this.editEl.show();
+    const { dateKey, entry } = found;
+
+    this.editEl.createEl("div", { text: `Edit log • ${domain.name || "Unnamed domain"}`, cls: "life-domain-group-title" });
+
+    const fields = this.editEl.createDiv({ cls: "life-domain-controls" });
+    fields.createEl("label", { text: "State" });
+    const stateSelect = fields.createEl("select");
+    if (!domain.states.some((s) => s.id === entry.stateId)) {
+      stateSelect.createEl("option", { text: "Unknown state", value: entry.stateId });
+    }
+    for (const state of domain.states) {
+      const label = isMeasuredState(state) ? state.unit || "measured" : String(state.score);
+      const suffix = state.archived ? ", archived" : "";
+      stateSelect.createEl("option", { text: `${state.name || "Unnamed"} (${label}${suffix})`, value: state.id });
+    }
+    stateSelect.value = entry.stateId;
+
+    const valueLabel = fields.createEl("label", { text: "Value" });
+    const valueInput = fields.createEl("input");
+    valueInput.type = "number";
+    valueInput.step = "any";
+    valueInput.value = entry.value !== undefined ? String(entry.value) : "";
+    const updateValueInput = () => {
+      const state = domain.states.find((s) => s.id === stateSelect.value);
+      const measured = !!state && isMeasuredState(state);
+      valueLabel.setText(state?.unit ? `Value (${state.unit})` : "Value");
+      valueLabel.toggle(measured);
+      valueInput.toggle(measured);
+    };
+    stateSelect.addEventListener("change", updateValueInput);
+    updateValueInput();
+
+    fields.createEl("label", { text: entry.endTs !== undefined ? "Start" : "Time" });
+    const timeInput = fields.createEl("input");
+    timeInput.type = "datetime-local";
+    timeInput.value = formatDateTimeInput(entry.ts);
+
+    let endInput: HTMLInputElement | null = null;
+    if (entry.endTs !== undefined) {
+      fields.createEl("label", { text: "End" });
+      endInput = fields.createEl("input");
+      endInput.type = "datetime-local";
+      endInput.value = formatDateTimeInput(entry.endTs);
+    }
+
+    const noteWrap = this.editEl.createDiv({ cls: "life-domain-note" });
+    noteWrap.createEl("label", { text: "Note" });
+    const noteInput = noteWrap.createEl("textarea");
+    noteInput.setAttr("rows", "2");
+    noteInput.value = entry.note ?? "";
+
+    const actions = this.editEl.createDiv({ cls: "life-domain-controls" });
+    const saveBtn = actions.createEl("button", { text: "Save", cls: "mod-cta" });
+    saveBtn.addEventListener("click", async () => {
+      // Keep the original seconds when the minute-precision input was left untouched.
+      const ts = timeInput.value === formatDateTimeInput(entry.ts) ? entry.ts : parseDateTimeInput(timeInput.value);
+      if (ts === null) {
+        new Notice("Invalid date or time.");
+        return;
+      }
+      let endTs: number | null | undefined;
+      if (endInput && entry.endTs !== undefined) {
+        endTs = endInput.value === formatDateTimeInput(entry.endTs) ? entry.endTs : parseDateTimeInput(endInput.value);
+        if (endTs === null || endTs < ts) {
+          new Notice("The end must be a valid time after the start.");
+          return;
+        }
+      }
+      const state = domain.states.find((s) => s.id === stateSelect.value);
+      let value: number | undefined;
+      if (state && isMeasuredState(state)) {
+        value = parseFloat(valueInput.value);
+        if (!Number.isFinite(value)) {
+          new Notice("Enter a value for this state.");
+          return;
+        }
+      }
+      const saved = await this.plugin.updateLog(entry.id, {
+        stateId: stateSelect.value,
+        note: noteInput.value,
+        ts,
+        value,
+        endTs: endTs ?? undefined
+      });
+      if (!saved) return;
+      const newDateKey = getDateKeyFromTs(ts, this.plugin.settings);
+      if (newDateKey !== dateKey) new Notice(`Moved log to ${newDateKey}`);
+      this.editingEntryId = null;
+      this.renderEditPanel();
+      this.renderTimeline();
+    });
+
+    const deleteBtn = actions.createEl("button", { text: "Delete", cls: "mod-warning" });
+    deleteBtn.addEventListener("click", async () => {
+      await this.plugin.deleteLogsByIds([entry.id]);
+      this.editingEntryId = null;
+      this.renderEditPanel();
+      this.renderTimeline();
+    });
+
+    const cancelBtn = actions.createEl("button", { text: "Cancel" });
+    cancelBtn.addEventListener("click", () => {
+      this.editingEntryId = null;
+      this.renderEditPanel();
+      this.renderTimeline();
+    });
+  }
+
   private updateTimeDisplay() {
     if (!this.timeDisplayEl) return;
     if (!this.selectedTimeTs) {
-      const dateLabel = this.selectedDateKey === getTodayKey() ? "Today" : this.selectedDateKey;
+      const isToday = this.selectedDateKey === getCurrentDateKey(this.plugin.settings);
+      const dateLabel = isToday ? "Today" : this.selectedDateKey;
       this.timeDisplayEl.setText(`${dateLabel} • Current time`);
       return;
     }
     const t = new Date(this.selectedTimeTs);
-    this.selectedDateKey = getDateKeyFromTs(this.selectedTimeTs);
+    this.selectedDateKey = getDateKeyFromTs(this.selectedTimeTs, this.plugin.settings);
     if (this.dateInputEl) this.dateInputEl.value = this.selectedDateKey;
     this.timeDisplayEl.setText(`${this.selectedDateKey} • ${formatTimeLabel(t)}`);
   }
@@ -590,9 +1054,11 @@ export class LogTimelineView extends ItemView {
   private getSelectedLogTs(): number {
     if (this.selectedTimeTs) return this.selectedTimeTs;
     const now = new Date();
-    if (this.selectedDateKey === getTodayKey()) return now.getTime();
+    if (this.selectedDateKey === getCurrentDateKey(this.plugin.settings)) return now.getTime();
     const [y, m, d] = this.selectedDateKey.split("-").map((v) => Number(v));
-    const ts = new Date(y, m - 1, d, now.getHours(), now.getMinutes(), 0, 0);
+    // Before the day start, the current time of day falls on the next calendar date.
+    const nextDate = now.getHours() < this.plugin.settings.dayStartHour ? 1 : 0;
+    const ts = new Date(y, m - 1, d + nextDate, now.getHours(), now.getMinutes(), 0, 0);
     return ts.getTime();
   }
 }
@@ -604,16 +1070,34 @@ function formatHourLabel(hour: number): string {
 }
 
 function formatTimeLabel(date: Date): string {
-  const hour = date.getHours();
-  const minute = date.getMinutes().toString().padStart(2, "0");
+  return formatClock(date.getHours(), date.getMinutes());
+}
+
+/** Formats a time from `getWallClock`, whose UTC fields hold the clock time. */
+function formatWallClockLabel(wall: number): string {
+  const date = new Date(wall);
+  return formatClock(date.getUTCHours(), date.getUTCMinutes());
+}
+
+function formatClock(hour: number, minutes: number): string {
+  const minute = minutes.toString().padStart(2, "0");
   const period = hour >= 12 ? "PM" : "AM";
   const display = hour % 12 === 0 ? 12 : hour % 12;
   return `${display}:${minute} ${period}`;
 }
 
-function dateFromKey(dateKey: string): Date {
-  const [y, m, d] = dateKey.split("-").map((v) => Number(v));
-  return new Date(y, m - 1, d);
+function formatDateTimeInput(ts: number): string {
+  const date = new Date(ts);
+  const hour = date.getHours().toString().padStart(2, "0");
+  const minute = date.getMinutes().toString().padStart(2, "0");
+  return `${toDateKey(date)}T${hour}:${minute}`;
+}
+
+function parseDateTimeInput(value: string): number | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm] = match.map((v) => Number(v));
+  return new Date(y, m - 1, d, hh, mm, 0, 0).getTime();
 }
 
 function getSelectedStateIds(container: HTMLElement | null): string[] {
@@ -622,18 +1106,197 @@ function getSelectedStateIds(container: HTMLElement | null): string[] {
   return inputs.filter((i) => i.checked && i.dataset.stateId).map((i) => i.dataset.stateId!);
 }
 
+export function buildChartData(plugin: LifeDomainTrackerPlugin, options: ChartOptions): ChartData {
+  const domain = plugin.settings.domains.find((d) => d.id === options.domainId);
+  if (!domain) return { labels: [], datasets: [] };
+
+  const aggregateIndex = buildDomainAggregateIndex(plugin);
+  const resolution = resolveResolution(plugin, options);
+  let chartData: ChartData;
+
+  if (options.viewKey === "composite") {
+    chartData = buildCompositeSeries(plugin, options, resolution, aggregateIndex);
+  } else if (options.viewKey === "domain") {
+    const series = buildDomainSeries(
+      plugin,
+      domain.id,
+      options,
+      resolution,
+      options.aggregationOverride,
+      aggregateIndex
+    );
+    chartData = {
+      labels: series.labels,
+      datasets: [
+        {
+          label: domain.name,
+          data: series.values,
+          borderColor: getDomainColor(plugin.settings.domains, domain),
+          backgroundColor: getDomainColor(plugin.settings.domains, domain),
+          spanGaps: true
+        }
+      ]
+    };
+    if (resolution === "day") chartData.datasets.push(...buildGoalLines(domain, chartData.labels, "aggregate"));
+  } else if (options.viewKey === "states") {
+    const targets = options.tag
+      ? collectTaggedStates(plugin.settings.domains, options.tag)
+      : domain.states.filter((s) => options.stateIds.includes(s.id)).map((state) => ({ domain, state }));
+    chartData = buildStateSeries(plugin, targets, options, resolution, options.stateMetric, options.bucketMetric);
+    if (!options.tag && resolution === "day" && options.stateMetric === "count") {
+      chartData.datasets.push(...buildGoalLines(domain, chartData.labels, "state-count", options.stateIds));
+    }
+  } else {
+    chartData = buildAllDomainsSeries(
+      plugin,
+      options,
+      resolution,
+      options.aggregationOverride,
+      aggregateIndex,
+      options.tag
+    );
+  }
+
+  if (!options.smoothingEnabled) return chartData;
+  // Bucketed series already span weeks or more per point, so only a short window is useful.
+  const smoothingWindow = resolution === "day" ? getSmoothingWindow(options, plugin.settings) : 3;
+  return {
+    labels: chartData.labels,
+    datasets: chartData.datasets.map((ds) => ({
+      ...ds,
+      data: applyMovingAverage(ds.data, smoothingWindow)
+    }))
+  };
+}
+
+function buildGoalLines(
+  domain: LifeDomain,
+  labels: string[],
+  kind: "aggregate" | "state-count",
+  stateIds: string[] = []
+): ChartDataset[] {
+  if (!labels.length) return [];
+  // Only daily goals line up with a per-day chart.
+  const goals = (domain.goals ?? []).filter(
+    (g) => g.period === "day" && g.kind === kind && (kind !== "state-count" || stateIds.includes(g.stateId ?? ""))
+  );
+  return goals.map((goal) => ({
+    label: `Goal: ${describeGoal(domain, goal)}`,
+    data: labels.map(() => goal.target),
+    borderColor: "#8d99ae",
+    backgroundColor: "#8d99ae",
+    spanGaps: true,
+    borderDash: [6, 4],
+    pointRadius: 0
+  }));
+}
+
+export function createLineChart(canvas: HTMLCanvasElement, chartData: ChartData): Chart {
+  return new Chart(canvas, {
+    type: "line",
+    data: chartData,
+    options: {
+      responsive: true,
+      interaction: { mode: "index", intersect: false },
+      plugins: {
+        legend: { display: true }
+      },
+      scales: {
+        x: { grid: { display: false }, border: { display: false } },
+        y: { beginAtZero: true, grid: { display: false }, border: { display: false } }
+      }
+    }
+  });
+}
+
+export function renderCalendarHeatmap(
+  plugin: LifeDomainTrackerPlugin,
+  container: HTMLElement,
+  options: ChartOptions
+) {
+  const domain = plugin.settings.domains.find((d) => d.id === options.domainId);
+  if (!domain) return;
+
+  const aggregateIndex = buildDomainAggregateIndex(plugin);
+  const dates = buildDateRange(options, plugin.settings, Object.keys(plugin.dataStore.logs));
+  const compositeScores =
+    options.viewKey === "composite-heatmap" ? computeCompositeScores(plugin, aggregateIndex) : null;
+  const agg = options.aggregationOverride === "default" ? domain.aggregationType : options.aggregationOverride;
+  const scale = !compositeScores && SCALE_AGGREGATIONS.includes(agg) ? getScoreScale(domain) : null;
+  const values = dates.map((dateKey) => {
+    if (compositeScores) return compositeScores.get(dateKey) ?? 0;
+    // Days without logs sit at the neutral score so they are not painted as bad days.
+    if (scale && !aggregateIndex.get(dateKey)?.get(domain.id)?.count) return scale.neutral;
+    return aggregateFromIndex(aggregateIndex, dateKey, domain.id, agg);
+  });
+  const min = Math.min(...values, 0);
+  const max = Math.max(...values, 0);
+
+  const grid = container.createDiv({ cls: "life-domain-heatmap-grid" });
+  for (let i = 0; i < dates.length; i++) {
+    const cell = grid.createDiv({ cls: "life-domain-heatmap-cell" });
+    const value = values[i];
+    if (scale) {
+      cell.style.backgroundColor = heatColor(value - scale.neutral, scaleIntensity(value, scale));
+    } else {
+      cell.style.backgroundColor = heatColor(value, normalizeValue(value, min, max));
+    }
+    cell.setAttr("title", `${dates[i]} • ${value.toFixed(2)}`);
+    cell.setText(dates[i].slice(8));
+  }
+}
+
+export function renderStateHeatmap(
+  plugin: LifeDomainTrackerPlugin,
+  container: HTMLElement,
+  options: ChartOptions
+) {
+  const domain = plugin.settings.domains.find((d) => d.id === options.domainId);
+  if (!domain) return;
+
+  const dates = buildDateRange(options, plugin.settings, Object.keys(plugin.dataStore.logs));
+  const stateIndex = buildStateMetricIndex(plugin, domain.id, options.stateMetric);
+
+  const wrapper = container.createDiv({ cls: "life-domain-state-heatmap" });
+  const header = wrapper.createDiv({ cls: "life-domain-state-heatmap-header" });
+  header.createDiv({ text: "State" });
+  const headerRow = header.createDiv({ cls: "life-domain-state-heatmap-row" });
+  for (const dateKey of dates) {
+    const cell = headerRow.createDiv({ cls: "life-domain-heatmap-cell header" });
+    cell.setText(dateKey.slice(8));
+  }
+
+  for (const state of domain.states) {
+    const row = wrapper.createDiv({ cls: "life-domain-state-heatmap-row" });
+    renderItemLabel(row.createDiv({ cls: "life-domain-state-label" }), state, getStateColor(state), "Unnamed");
+    const values = dates.map((d) => stateIndex.get(d)?.get(state.id) ?? 0);
+    const maxMagnitude = Math.max(...values.map((v) => Math.abs(v)), 0);
+    // Colour follows the state's place on the domain scale rather than the sign of its score.
+    const tone = classifyScore(domain, state.score) === "bad" ? -1 : 1;
+    for (let i = 0; i < dates.length; i++) {
+      const cell = row.createDiv({ cls: "life-domain-heatmap-cell" });
+      const value = values[i];
+      const intensity = normalizeValue(Math.abs(value), 0, maxMagnitude);
+      cell.style.backgroundColor = heatColor(tone, intensity);
+      cell.setAttr("title", `${dates[i]} • ${value.toFixed(2)}`);
+      cell.setText(value ? String(value) : "");
+    }
+  }
+}
+
 function buildDomainSeries(
   plugin: LifeDomainTrackerPlugin,
   domainId: string,
-  rangeKey: RangeKey,
+  range: RangeSelection,
+  resolution: Exclude<ResolutionKey, "auto">,
   aggregationOverride: AggregationKey,
   aggregateIndex: DomainAggregateIndex
 ): { labels: string[]; values: number[] } {
   const domain = plugin.settings.domains.find((d) => d.id === domainId);
   if (!domain) return { labels: [], values: [] };
-  const points = buildPoints(plugin, rangeKey, (dateKey) => {
+  const points = buildPoints(plugin, range, resolution, (dates) => {
     const agg = aggregationOverride === "default" ? domain.aggregationType : aggregationOverride;
-    return aggregateFromIndex(aggregateIndex, dateKey, domainId, agg);
+    return aggregateValue(mergeAggregates(aggregateIndex, dates, domainId), agg);
   });
   return {
     labels: points.map((p) => p.date),
@@ -641,30 +1304,42 @@ function buildDomainSeries(
   };
 }
 
+type StateTarget = { domain: LifeDomain; state: LifeDomainState };
+
 function buildStateSeries(
   plugin: LifeDomainTrackerPlugin,
-  domainId: string,
-  stateIds: string[],
-  rangeKey: RangeKey,
-  metric: "count" | "score"
-): { labels: string[]; datasets: { label: string; data: number[]; borderColor: string; backgroundColor: string; spanGaps: boolean }[] } {
-  const domain = plugin.settings.domains.find((d) => d.id === domainId);
-  if (!domain) return { labels: [], datasets: [] };
-
-  const states = domain.states.filter((s) => stateIds.includes(s.id));
-  if (!states.length) return { labels: [], datasets: [] };
-
-  const stateIndex = buildStateMetricIndex(plugin, domainId, metric);
-  const points = buildPoints(plugin, rangeKey, (dateKey) => {
-    return stateIndex.get(dateKey) ?? new Map<string, number>();
+  targets: StateTarget[],
+  range: RangeSelection,
+  resolution: Exclude<ResolutionKey, "auto">,
+  metric: StateMetricKey,
+  bucketMetric: BucketMetricKey
+): ChartData {
+  if (!targets.length) return { labels: [], datasets: [] };
+
+  const stateIndexes = new Map<string, Map<string, Map<string, number>>>();
+  for (const { domain } of targets) {
+    if (!stateIndexes.has(domain.id)) stateIndexes.set(domain.id, buildStateMetricIndex(plugin, domain.id, metric));
+  }
+  const targetKey = (target: StateTarget) => `${target.domain.id}:${target.state.id}`;
+  const points = buildPoints(plugin, range, resolution, (dates) => {
+    const map = new Map<string, number>();
+    for (const target of targets) {
+      const stateIndex = stateIndexes.get(target.domain.id)!;
+      const daily = dates.map((d) => stateIndex.get(d)?.get(target.state.id) ?? 0);
+      map.set(targetKey(target), reduceBucket(daily, bucketMetric));
+    }
+    return map;
   });
 
+  // States from several domains (a tag filter) are prefixed with their domain.
+  const multiDomain = new Set(targets.map((t) => t.domain.id)).size > 1;
   const labels = points.map((p) => p.date);
-  const datasets = states.map((state, idx) => {
-    const color = colorForIndex(idx);
+  const datasets = targets.map((target) => {
+    const color = getStateColor(target.state);
+    const name = target.state.name || "Unnamed";
     return {
-      label: state.name || "Unnamed",
-      data: points.map((p) => (p.value as Map<string, number>).get(state.id) ?? 0),
+      label: multiDomain ? `${target.domain.name || "Unnamed"}: ${name}` : name,
+      data: points.map((p) => p.value.get(targetKey(target)) ?? 0),
       borderColor: color,
       backgroundColor: color,
       spanGaps: true
@@ -675,23 +1350,26 @@ function buildStateSeries(
 
 function buildAllDomainsSeries(
   plugin: LifeDomainTrackerPlugin,
-  rangeKey: RangeKey,
+  range: RangeSelection,
+  resolution: Exclude<ResolutionKey, "auto">,
   aggregationOverride: AggregationKey,
-  aggregateIndex: DomainAggregateIndex
-): { labels: string[]; datasets: { label: string; data: number[]; borderColor: string; backgroundColor: string; spanGaps: boolean }[] } {
-  const domains = plugin.settings.domains;
-  const points = buildPoints(plugin, rangeKey, (dateKey) => {
+  aggregateIndex: DomainAggregateIndex,
+  tag?: string
+): ChartData {
+  const allDomains = plugin.settings.domains;
+  const domains = tag ? allDomains.filter((d) => hasTag(d, tag)) : allDomains;
+  const points = buildPoints(plugin, range, resolution, (dates) => {
     const perDomain: Record<string, number> = {};
     for (const domain of domains) {
       const agg = aggregationOverride === "default" ? domain.aggregationType : aggregationOverride;
-      perDomain[domain.id] = aggregateFromIndex(aggregateIndex, dateKey, domain.id, agg);
+      perDomain[domain.id] = aggregateValue(mergeAggregates(aggregateIndex, dates, domain.id), agg);
     }
     return perDomain;
   });
 
   const labels = points.map((p) => p.date);
-  const datasets = domains.map((domain, idx) => {
-    const color = colorForIndex(idx);
+  const datasets = domains.map((domain) => {
+    const color = getDomainColor(allDomains, domain);
     return {
       label: domain.name,
       data: points.map((p) => (p.value as Record<string, number>)[domain.id] ?? 0),
@@ -703,37 +1381,178 @@ function buildAllDomainsSeries(
   return { labels, datasets };
 }
 
+/** States carrying `tag`, either directly or through their domain. */
+function collectTaggedStates(domains: LifeDomain[], tag: string): StateTarget[] {
+  const targets: StateTarget[] = [];
+  for (const domain of domains) {
+    for (const state of domain.states) {
+      if (hasTag(state, tag) || hasTag(domain, tag)) targets.push({ domain, state });
+    }
+  }
+  return targets;
+}
+
+function buildCompositeSeries(
+  plugin: LifeDomainTrackerPlugin,
+  range: RangeSelection,
+  resolution: Exclude<ResolutionKey, "auto">,
+  aggregateIndex: DomainAggregateIndex
+): ChartData {
+  const scores = computeCompositeScores(plugin, aggregateIndex);
+  const points = buildPoints(plugin, range, resolution, (dates) => {
+    const values = dates.filter((d) => scores.has(d)).map((d) => scores.get(d)!);
+    return values.length ? reduceBucket(values, "average") : null;
+  }).filter((p) => p.value !== null);
+
+  return {
+    labels: points.map((p) => p.date),
+    datasets: [
+      {
+        label: "Life score",
+        data: points.map((p) => p.value!),
+        borderColor: "#264653",
+        backgroundColor: "#264653",
+        spanGaps: true
+      }
+    ]
+  };
+}
+
+/** Groups the logged days in range into buckets and computes one point per bucket. */
 function buildPoints<T>(
   plugin: LifeDomainTrackerPlugin,
-  rangeKey: RangeKey,
-  valueFn: (dateKey: string) => T
+  range: RangeSelection,
+  resolution: Exclude<ResolutionKey, "auto">,
+  valueFn: (dates: string[]) => T
 ): { date: string; value: T }[] {
   const dates = Object.keys(plugin.dataStore.logs).sort();
   if (!dates.length) return [];
 
-  const today = new Date();
-  const rangeDays = rangeKey === "all" ? null : parseInt(rangeKey.replace("d", ""), 10);
-  const startDate = rangeDays ? addDays(today, -(rangeDays - 1)) : null;
+  const { start, end } = resolveDateRange(range, plugin.settings);
 
-  const points: { date: string; value: T }[] = [];
+  const buckets = new Map<string, string[]>();
   for (const dateKey of dates) {
-    if (startDate && dateKey < toDateKey(startDate)) continue;
-    if (dateKey > getTodayKey()) continue;
-    points.push({ date: dateKey, value: valueFn(dateKey) });
+    if (start && dateKey < start) continue;
+    if (dateKey > end) continue;
+    const label = bucketLabel(dateKey, resolution);
+    if (!buckets.has(label)) buckets.set(label, []);
+    buckets.get(label)!.push(dateKey);
   }
 
-  const maxPoints = rangeKey === "all" ? 180 : 90;
-  return downsample(points, maxPoints);
+  return Array.from(buckets.entries()).map(([label, bucketDates]) => ({
+    date: label,
+    value: valueFn(bucketDates)
+  }));
+}
+
+/** Picks the finest resolution that keeps the chart under its point budget. */
+function resolveResolution(plugin: LifeDomainTrackerPlugin, options: ChartOptions): Exclude<ResolutionKey, "auto"> {
+  if (options.resolution !== "auto") return options.resolution;
+  const maxPoints = options.rangeKey === "all" ? 180 : 90;
+  const { start, end } = resolveDateRange(options, plugin.settings);
+  const first = start ?? Object.keys(plugin.dataStore.logs).sort()[0];
+  if (!first || first > end) return "day";
+  const days = Math.round((dateFromKey(end).getTime() - dateFromKey(first).getTime()) / 86400000) + 1;
+  if (days <= maxPoints) return "day";
+  if (days / 7 <= maxPoints) return "week";
+  if (days / 30 <= maxPoints) return "month";
+  return "quarter";
+}
+
+function bucketLabel(dateKey: string, resolution: Exclude<ResolutionKey, "auto">): string {
+  if (resolution === "day") return dateKey;
+  const date = dateFromKey(dateKey);
+  if (resolution === "week") return toDateKey(addDays(date, -((date.getDay() + 6) % 7)));
+  if (resolution === "month") return dateKey.slice(0, 7);
+  return `${date.getFullYear()} Q${Math.floor(date.getMonth() / 3) + 1}`;
 }
 
-function downsample<T>(points: T[], maxPoints: number): T[] {
-  if (points.length <= maxPoints) return points;
-  const step = Math.ceil(points.length / maxPoints);
-  const sampled: T[] = [];
-  for (let i = 0; i < points.length; i += step) {
-    sampled.push(points[i]);
+/** Combines per-day aggregates so a week or month aggregates like a single long day. */
+export function mergeAggregates(index: DomainAggregateIndex, dates: string[], domainId: string): DomainAggregate {
+  const merged = emptyAggregate();
+  for (const dateKey of dates) {
+    const agg = index.get(dateKey)?.get(domainId);
+    if (!agg || !agg.count) continue;
+    merged.worst = merged.count ? Math.min(merged.worst, agg.worst) : agg.worst;
+    merged.best = merged.count ? Math.max(merged.best, agg.best) : agg.best;
+    if (agg.lastTs >= merged.lastTs) {
+      merged.last = agg.last;
+      merged.lastTs = agg.lastTs;
+    }
+    merged.sum += agg.sum;
+    merged.count += agg.count;
+    merged.good += agg.good;
+    merged.bad += agg.bad;
+    merged.weightedSum += agg.weightedSum;
+    merged.weightTotal += agg.weightTotal;
+    merged.scores.push(...agg.scores);
+  }
+  merged.scores.sort((a, b) => a - b);
+  return merged;
+}
+
+function reduceBucket(values: number[], metric: BucketMetricKey): number {
+  if (!values.length) return 0;
+  if (metric === "average") return values.reduce((acc, v) => acc + v, 0) / values.length;
+  if (metric === "min") return Math.min(...values);
+  if (metric === "max") return Math.max(...values);
+  return values.reduce((acc, v) => acc + v, 0);
+}
+
+/**
+ * Resolves a range to inclusive day keys, counting from the current day as set by the day start hour.
+ * A null start means "from the first log".
+ */
+export function resolveDateRange(
+  range: RangeSelection,
+  settings: DayBoundarySettings,
+  now: number = Date.now()
+): { start: string | null; end: string } {
+  const todayKey = getDateKeyFromTs(now, settings);
+  const today = dateFromKey(todayKey);
+  const quarterStartMonth = Math.floor(today.getMonth() / 3) * 3;
+  // Weeks start on Monday.
+  const weekStart = addDays(today, -((today.getDay() + 6) % 7));
+
+  switch (range.rangeKey) {
+    case "all":
+      return { start: null, end: todayKey };
+    case "this-week":
+      return { start: toDateKey(weekStart), end: todayKey };
+    case "last-week":
+      return { start: toDateKey(addDays(weekStart, -7)), end: toDateKey(addDays(weekStart, -1)) };
+    case "this-month":
+      return { start: toDateKey(new Date(today.getFullYear(), today.getMonth(), 1)), end: todayKey };
+    case "last-month":
+      return {
+        start: toDateKey(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+        end: toDateKey(new Date(today.getFullYear(), today.getMonth(), 0))
+      };
+    case "this-quarter":
+      return { start: toDateKey(new Date(today.getFullYear(), quarterStartMonth, 1)), end: todayKey };
+    case "last-quarter":
+      return {
+        start: toDateKey(new Date(today.getFullYear(), quarterStartMonth - 3, 1)),
+        end: toDateKey(new Date(today.getFullYear(), quarterStartMonth, 0))
+      };
+    case "ytd":
+      return { start: toDateKey(new Date(today.getFullYear(), 0, 1)), end: todayKey };
+    case "year": {
+      const year = range.rangeYear ?? today.getFullYear();
+      return { start: `${year}-01-01`, end: `${year}-12-31` };
+    }
+    case "custom": {
+      const start = range.rangeFrom || null;
+      const end = range.rangeTo || todayKey;
+      // Accept a reversed pair rather than rendering nothing.
+      if (start && start > end) return { start: end, end: start };
+      return { start, end };
+    }
+    default: {
+      const days = parseInt(range.rangeKey.replace("d", ""), 10);
+      return { start: toDateKey(addDays(today, -(days - 1))), end: todayKey };
+    }
   }
-  return sampled;
 }
 
 function addDays(date: Date, days: number): Date {
@@ -749,35 +1568,16 @@ function toDateKey(date: Date): string {
   return `${y}-${m}-${d}`;
 }
 
-function colorForIndex(idx: number): string {
-  const palette = [
-    "#2a9d8f",
-    "#e76f51",
-    "#457b9d",
-    "#f4a261",
-    "#264653",
-    "#e9c46a",
-    "#8d99ae",
-    "#ef476f"
-  ];
-  return palette[idx % palette.length];
-}
-
-function getSmoothingWindow(rangeKey: RangeKey): number {
-  switch (rangeKey) {
-    case "7d":
-      return 2;
-    case "30d":
-      return 3;
-    case "90d":
-      return 5;
-    case "365d":
-      return 7;
-    case "all":
-      return 10;
-    default:
-      return 3;
-  }
+function getSmoothingWindow(range: RangeSelection, settings: DayBoundarySettings): number {
+  if (range.rangeKey === "all") return 10;
+  const { start, end } = resolveDateRange(range, settings);
+  if (!start) return 10;
+  const days = Math.round((dateFromKey(end).getTime() - dateFromKey(start).getTime()) / 86400000) + 1;
+  if (days <= 7) return 2;
+  if (days <= 31) return 3;
+  if (days <= 92) return 5;
+  if (days <= 366) return 7;
+  return 10;
 }
 
 function applyMovingAverage(values: number[], window: number): number[] {
@@ -792,37 +1592,44 @@ function applyMovingAverage(values: number[], window: number): number[] {
   return result;
 }
 
-function buildDateRange(rangeKey: RangeKey, availableDates: string[]): string[] {
-  const todayKey = getTodayKey();
+function buildDateRange(range: RangeSelection, settings: DayBoundarySettings, availableDates: string[]): string[] {
   const sorted = availableDates.sort();
-  if (rangeKey === "all") return sorted.length ? sorted : [todayKey];
+  if (range.rangeKey === "all") return sorted.length ? sorted : [getCurrentDateKey(settings)];
 
-  const days = parseInt(rangeKey.replace("d", ""), 10);
-  const end = new Date();
+  const { start, end } = resolveDateRange(range, settings);
+  const first = start ?? sorted.find((d) => d <= end);
+  if (!first) return [end];
   const dates: string[] = [];
-  for (let i = days - 1; i >= 0; i--) {
-    const d = new Date(end);
-    d.setDate(end.getDate() - i);
-    dates.push(getDateKeyFromTs(d.getTime()));
+  for (let d = dateFromKey(first); toDateKey(d) <= end; d = addDays(d, 1)) {
+    dates.push(toDateKey(d));
   }
   return dates;
 }
 
+// Aggregations whose result stays on the domain's score scale.
+const SCALE_AGGREGATIONS: AggregationType[] = ["average", "worst", "best", "median", "last", "weighted"];
+
+/** Distance from the neutral score as a share of the scale on that side of it. */
+function scaleIntensity(value: number, scale: LifeDomainScale): number {
+  const span = value >= scale.neutral ? scale.max - scale.neutral : scale.neutral - scale.min;
+  return span > 0 ? Math.min(1, Math.abs(value - scale.neutral) / span) : 0;
+}
+
 function normalizeValue(value: number, min: number, max: number): number {
   if (max === min) return 0;
   return (value - min) / (max - min);
 }
 
-function heatColor(value: number, intensity: number): string {
+export function heatColor(value: number, intensity: number): string {
   const base = value >= 0 ? [42, 157, 143] : [231, 111, 81];
   const alpha = 0.15 + intensity * 0.65;
   return `rgba(${base[0]}, ${base[1]}, ${base[2]}, ${alpha})`;
 }
 
-function buildStateMetricIndex(
+export function buildStateMetricIndex(
   plugin: LifeDomainTrackerPlugin,
   domainId: string,
-  metric: "count" | "score"
+  metric: StateMetricKey
 ): Map<string, Map<string, number>> {
   const index = new Map<string, Map<string, number>>();
   for (const [dateKey, domains] of Object.entries(plugin.dataStore.logs)) {
@@ -830,19 +1637,46 @@ function buildStateMetricIndex(
     if (!logs) continue;
     const map = new Map<string, number>();
     for (const log of logs) {
-      const inc = metric === "score" ? log.score : 1;
-      map.set(log.stateId, (map.get(log.stateId) ?? 0) + inc);
+      map.set(log.stateId, (map.get(log.stateId) ?? 0) + stateMetricValue(log, metric));
     }
     index.set(dateKey, map);
   }
   return index;
 }
 
-type DomainAggregate = { sum: number; count: number; worst: number };
-type DomainAggregateIndex = Map<string, Map<string, DomainAggregate>>;
+function stateMetricValue(log: DomainLogEntry, metric: StateMetricKey): number {
+  if (metric === "score") return log.score;
+  if (metric === "value") return log.value ?? 0;
+  // Sessions count towards the day they started on.
+  if (metric === "duration") return log.endTs !== undefined ? (log.endTs - log.ts) / 60000 : 0;
+  return 1;
+}
 
-function buildDomainAggregateIndex(plugin: LifeDomainTrackerPlugin): DomainAggregateIndex {
+/**
+ * Everything any aggregation type needs for one domain on one day, collected in a
+ * single pass so switching aggregation never re-reads the logs.
+ */
+export type DomainAggregate = {
+  sum: number;
+  count: number;
+  worst: number;
+  best: number;
+  /** Entries scored above and below the domain's neutral score. */
+  good: number;
+  bad: number;
+  last: number;
+  lastTs: number;
+  /** Scores weighted by their position in the day (1 for the first entry, 2 for the second, ...). */
+  weightedSum: number;
+  weightTotal: number;
+  /** Sorted ascending, for the median. */
+  scores: number[];
+};
+export type DomainAggregateIndex = Map<string, Map<string, DomainAggregate>>;
+
+export function buildDomainAggregateIndex(plugin: LifeDomainTrackerPlugin): DomainAggregateIndex {
   const index: DomainAggregateIndex = new Map();
+  const neutrals = new Map(plugin.settings.domains.map((d) => [d.id, getScoreScale(d).neutral] as const));
   for (const [dateKey, domains] of Object.entries(plugin.dataStore.logs)) {
     for (const [domainId, logs] of Object.entries(domains)) {
       let entry = index.get(dateKey);
@@ -850,29 +1684,83 @@ function buildDomainAggregateIndex(plugin: LifeDomainTrackerPlugin): DomainAggre
         entry = new Map();
         index.set(dateKey, entry);
       }
-      const sum = logs.reduce((acc, l) => acc + l.score, 0);
-      const count = logs.length;
-      const worst = logs.reduce((acc, l) => Math.min(acc, l.score), logs[0]?.score ?? 0);
-      entry.set(domainId, { sum, count, worst });
+      entry.set(domainId, aggregateLogs(logs, neutrals.get(domainId) ?? 0));
     }
   }
   return index;
 }
 
-function aggregateFromIndex(
+function aggregateLogs(logs: DomainLogEntry[], neutral: number): DomainAggregate {
+  const agg = emptyAggregate();
+  const ordered = [...logs].sort((a, b) => a.ts - b.ts);
+  ordered.forEach((log, idx) => {
+    agg.worst = agg.count ? Math.min(agg.worst, log.score) : log.score;
+    agg.best = agg.count ? Math.max(agg.best, log.score) : log.score;
+    agg.sum += log.score;
+    agg.count++;
+    if (log.score > neutral) agg.good++;
+    if (log.score < neutral) agg.bad++;
+    agg.last = log.score;
+    agg.lastTs = log.ts;
+    agg.weightedSum += log.score * (idx + 1);
+    agg.weightTotal += idx + 1;
+    agg.scores.push(log.score);
+  });
+  agg.scores.sort((a, b) => a - b);
+  return agg;
+}
+
+function emptyAggregate(): DomainAggregate {
+  return {
+    sum: 0,
+    count: 0,
+    worst: 0,
+    best: 0,
+    good: 0,
+    bad: 0,
+    last: 0,
+    lastTs: 0,
+    weightedSum: 0,
+    weightTotal: 0,
+    scores: []
+  };
+}
+
+export function aggregateFromIndex(
   index: DomainAggregateIndex,
   dateKey: string,
   domainId: string,
-  aggregation: "sum" | "average" | "worst"
+  aggregation: AggregationType
 ): number {
   const domainMap = index.get(dateKey);
   const agg = domainMap?.get(domainId);
   if (!agg) return 0;
-  if (aggregation === "average") {
-    return agg.count ? agg.sum / agg.count : 0;
-  }
-  if (aggregation === "worst") {
-    return agg.worst;
+  return aggregateValue(agg, aggregation);
+}
+
+export function aggregateValue(agg: DomainAggregate, aggregation: AggregationType): number {
+  switch (aggregation) {
+    case "average":
+      return agg.count ? agg.sum / agg.count : 0;
+    case "worst":
+      return agg.worst;
+    case "best":
+      return agg.best;
+    case "median": {
+      const { scores } = agg;
+      if (!scores.length) return 0;
+      const mid = Math.floor(scores.length / 2);
+      return scores.length % 2 ? scores[mid] : (scores[mid - 1] + scores[mid]) / 2;
+    }
+    case "last":
+      return agg.last;
+    case "count":
+      return agg.count;
+    case "net":
+      return agg.good - agg.bad;
+    case "weighted":
+      return agg.weightTotal ? agg.weightedSum / agg.weightTotal : 0;
+    default:
+      return agg.sum;
   }
-  return agg.sum;
 }